@@ -0,0 +1,302 @@
+import { none, some, type Option } from "@/option";
+import { type Result, ok, err } from "@/result";
+
+/**
+ * A segment of the path to a decoded value: an object key or an array index.
+ */
+export type PathSegment = string | number;
+
+/**
+ * Describes why an input could not be decoded, and where.
+ *
+ * @example
+ * const error: DecodeError = { path: ["user", "tags", 2], message: "expected string, received number" };
+ *
+ * @param path - Keys and indexes leading from the root input to the failing value
+ * @param message - What was expected at that location
+ */
+export type DecodeError = {
+  readonly path: readonly PathSegment[];
+  readonly message: string;
+};
+
+/**
+ * A function that validates an unknown input and produces a typed Result.
+ *
+ * @example
+ * const user: Decoder<{ name: string }> = object({ name: string() });
+ * const result = user(JSON.parse(body)); // Result<{ name: string }, DecodeError>
+ *
+ * @param T - The type of the decoded value
+ */
+export type Decoder<T> = (input: unknown) => Result<T, DecodeError>;
+
+/**
+ * Extracts the decoded type from a Decoder.
+ *
+ * @example
+ * const user = object({ name: string(), age: number() });
+ * type User = Infer<typeof user>; // { name: string; age: number }
+ *
+ * @param D - The Decoder to extract the type from
+ */
+export type Infer<D> = D extends Decoder<infer T> ? T : never;
+
+/**
+ * Describes the runtime type of a value for error messages.
+ *
+ * @internal
+ */
+const describe = (input: unknown): string => {
+  if (input === null) return "null";
+  if (Array.isArray(input)) return "array";
+  return typeof input;
+};
+
+/**
+ * Describes a value for literal mismatches, showing primitives as they would be written.
+ *
+ * @internal
+ */
+const describeLiteral = (input: unknown): string =>
+  typeof input === "string" || typeof input === "number" || typeof input === "boolean"
+    ? JSON.stringify(input)
+    : describe(input);
+
+/**
+ * Creates a DecodeError at the root of the current input.
+ *
+ * @internal
+ */
+const failure = (message: string): Result<never, DecodeError> => err({ path: [], message });
+
+/**
+ * Prefixes the path of a failed Result with the segment it was decoded under.
+ *
+ * @internal
+ */
+const at = <T>(segment: PathSegment, result: Result<T, DecodeError>): Result<T, DecodeError> =>
+  result.ok ? result : err({ path: [segment, ...result.error.path], message: result.error.message });
+
+/**
+ * Formats a DecodeError as a single line, e.g. `user.tags[2]: expected string, received number`.
+ *
+ * @example
+ * formatDecodeError({ path: ["user", "tags", 2], message: "expected string, received number" });
+ * // "user.tags[2]: expected string, received number"
+ *
+ * @param error - The DecodeError to format
+ * @returns A human-readable description of the error and its location
+ */
+export function formatDecodeError(error: DecodeError): string {
+  if (error.path.length === 0) return error.message;
+  let path = "";
+  for (const segment of error.path) {
+    if (typeof segment === "number") {
+      path += `[${segment}]`;
+    } else {
+      path += path === "" ? segment : `.${segment}`;
+    }
+  }
+  return `${path}: ${error.message}`;
+}
+
+/**
+ * Decodes a string.
+ *
+ * @example
+ * string()("hello"); // ok("hello")
+ * string()(42); // err({ path: [], message: "expected string, received number" })
+ *
+ * @returns A Decoder that accepts strings
+ */
+export function string(): Decoder<string> {
+  return (input) => (typeof input === "string" ? ok(input) : failure(`expected string, received ${describe(input)}`));
+}
+
+/**
+ * Decodes a number. `NaN` is rejected.
+ *
+ * @example
+ * number()(42); // ok(42)
+ * number()("42"); // err({ path: [], message: "expected number, received string" })
+ *
+ * @returns A Decoder that accepts numbers other than NaN
+ */
+export function number(): Decoder<number> {
+  return (input) =>
+    typeof input === "number" && !Number.isNaN(input)
+      ? ok(input)
+      : failure(`expected number, received ${Number.isNaN(input) ? "NaN" : describe(input)}`);
+}
+
+/**
+ * Decodes a boolean.
+ *
+ * @example
+ * boolean()(true); // ok(true)
+ *
+ * @returns A Decoder that accepts booleans
+ */
+export function boolean(): Decoder<boolean> {
+  return (input) => (typeof input === "boolean" ? ok(input) : failure(`expected boolean, received ${describe(input)}`));
+}
+
+/**
+ * Decodes one of a fixed set of primitive values.
+ *
+ * @example
+ * const role = literal("admin", "user");
+ * role("admin"); // ok("admin"), typed as "admin" | "user"
+ * role("root"); // err({ path: [], message: 'expected "admin" | "user", received "root"' })
+ *
+ * @param values - The accepted values
+ * @returns A Decoder that accepts exactly the given values
+ */
+export function literal<
+  const L extends readonly [string | number | boolean | null, ...(string | number | boolean | null)[]],
+>(...values: L): Decoder<L[number]> {
+  const expected = values.map((value) => JSON.stringify(value)).join(" | ");
+  return (input) =>
+    values.includes(input as L[number])
+      ? ok(input as L[number])
+      : failure(`expected ${expected}, received ${describeLiteral(input)}`);
+}
+
+/**
+ * Decodes an object with the given fields. Keys not in the shape are dropped.
+ * Decoding stops at the first failing field, whose key is added to the error path.
+ *
+ * @example
+ * const user = object({ name: string(), age: number(), nickname: optional(string()) });
+ * user({ name: "Alice", age: 30 }); // ok({ name: "Alice", age: 30, nickname: none() })
+ * user({ name: "Alice", age: "30" }); // err({ path: ["age"], message: "expected number, received string" })
+ *
+ * @param shape - A record of Decoders, one per field
+ * @returns A Decoder for objects with the decoded fields
+ */
+export function object<S extends Record<string, Decoder<unknown>>>(shape: S): Decoder<{ [K in keyof S]: Infer<S[K]> }> {
+  return (input) => {
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+      return failure(`expected object, received ${describe(input)}`);
+    }
+
+    // Only own properties are read, so keys like "constructor" never reach the prototype
+    const fields = new Map<string, unknown>(Object.entries(input));
+    const entries: [string, unknown][] = [];
+
+    for (const [key, decoder] of Object.entries(shape)) {
+      const result = at(key, decoder(fields.get(key)));
+      if (!result.ok) return result;
+      entries.push([key, result.value]);
+    }
+
+    return ok(Object.fromEntries(entries) as { [K in keyof S]: Infer<S[K]> });
+  };
+}
+
+/**
+ * Decodes an array whose items all match the given Decoder.
+ * Decoding stops at the first failing item, whose index is added to the error path.
+ *
+ * @example
+ * const tags = array(string());
+ * tags(["a", "b"]); // ok(["a", "b"])
+ * tags(["a", 2]); // err({ path: [1], message: "expected string, received number" })
+ *
+ * @param item - The Decoder for each item
+ * @returns A Decoder for arrays of decoded items
+ */
+export function array<T>(item: Decoder<T>): Decoder<T[]> {
+  return (input) => {
+    if (!Array.isArray(input)) {
+      return failure(`expected array, received ${describe(input)}`);
+    }
+
+    const values: T[] = [];
+
+    for (const [index, value] of input.entries()) {
+      const result = at(index, item(value));
+      if (!result.ok) return result;
+      values.push(result.value);
+    }
+
+    return ok(values);
+  };
+}
+
+/**
+ * Decodes a value that matches any of the given Decoders, trying them in order.
+ *
+ * @example
+ * const id = union(string(), number());
+ * id("abc"); // ok("abc")
+ * id(42); // ok(42)
+ * id(true); // err({ path: [], message: "expected one of: (expected string, ...) | (expected number, ...)" })
+ *
+ * @param decoders - The candidate Decoders
+ * @returns A Decoder for the union of the candidates' types
+ */
+export function union<D extends readonly [Decoder<unknown>, ...Decoder<unknown>[]]>(
+  ...decoders: D
+): Decoder<Infer<D[number]>> {
+  return (input) => {
+    const messages: string[] = [];
+
+    for (const decoder of decoders) {
+      const result = decoder(input);
+      if (result.ok) return result as Result<Infer<D[number]>, DecodeError>;
+      messages.push(formatDecodeError(result.error));
+    }
+
+    return failure(`expected one of: ${messages.map((message) => `(${message})`).join(" | ")}`);
+  };
+}
+
+/**
+ * Decodes a value that may be missing. `undefined` (including an absent object
+ * key) decodes to `none()`, anything else is decoded and wrapped in `some`.
+ *
+ * @example
+ * const nickname = optional(string());
+ * nickname(undefined); // ok(none())
+ * nickname("Al"); // ok(some("Al"))
+ * nickname(42); // err({ path: [], message: "expected string, received number" })
+ *
+ * @param decoder - The Decoder for the value when present
+ * @returns A Decoder producing an Option of the decoded value
+ */
+export function optional<T>(decoder: Decoder<T>): Decoder<Option<T>> {
+  return (input) => {
+    if (input === undefined) return ok(none());
+    const result = decoder(input);
+    return result.ok ? ok(some(result.value)) : result;
+  };
+}
+
+/**
+ * Adds a check to a Decoder. Predicates that are type guards narrow the decoded type.
+ *
+ * @example
+ * const age = refine(number(), (n) => Number.isInteger(n) && n >= 0, "expected a non-negative integer");
+ * age(30); // ok(30)
+ * age(-1); // err({ path: [], message: "expected a non-negative integer" })
+ *
+ * @param decoder - The Decoder to refine
+ * @param predicate - The check the decoded value must pass
+ * @param message - The error message used when the check fails
+ * @returns A Decoder that also applies the check
+ */
+export function refine<T, U extends T>(
+  decoder: Decoder<T>,
+  predicate: (value: T) => value is U,
+  message: string,
+): Decoder<U>;
+export function refine<T>(decoder: Decoder<T>, predicate: (value: T) => boolean, message: string): Decoder<T>;
+export function refine<T>(decoder: Decoder<T>, predicate: (value: T) => boolean, message: string): Decoder<T> {
+  return (input) => {
+    const result = decoder(input);
+    if (!result.ok) return result;
+    return predicate(result.value) ? result : failure(message);
+  };
+}
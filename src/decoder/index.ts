@@ -0,0 +1,7 @@
+/**
+ * Decoder module - Validate unknown input into typed Results
+ *
+ * @module decoder
+ */
+export * from "./decoder";
+export * from "./standard-schema";
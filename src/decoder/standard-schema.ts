@@ -0,0 +1,121 @@
+import { type Result, ok, err } from "@/result";
+
+/**
+ * A segment of a Standard Schema issue path, in object form.
+ */
+export type StandardSchemaPathSegment = {
+  readonly key: PropertyKey;
+};
+
+/**
+ * A single validation issue reported by a Standard Schema validator.
+ *
+ * @param message - What went wrong
+ * @param path - Keys leading from the root input to the failing value, if any
+ */
+export type StandardSchemaIssue = {
+  readonly message: string;
+  readonly path?: readonly (PropertyKey | StandardSchemaPathSegment)[] | undefined;
+};
+
+/**
+ * The outcome of a Standard Schema `validate` call.
+ *
+ * @param Output - The type of the validated value
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaIssue[] };
+
+/**
+ * The vendor-neutral validator interface implemented by Zod, Valibot, ArkType and others.
+ *
+ * @remarks
+ * Only the shape of the interface is declared here, so any compliant validator
+ * can be used without adding a runtime dependency. See https://standardschema.dev.
+ *
+ * @param Input - The type the schema accepts
+ * @param Output - The type the schema produces
+ */
+export type StandardSchema<Input = unknown, Output = Input> = {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+};
+
+/**
+ * Extracts the output type from a Standard Schema.
+ *
+ * @example
+ * type User = InferStandardSchema<typeof UserSchema>;
+ *
+ * @param S - The schema to extract the type from
+ */
+export type InferStandardSchema<S> = S extends StandardSchema<unknown, infer Output> ? Output : never;
+
+/**
+ * Converts a Standard Schema result to a Result.
+ *
+ * @internal
+ */
+const toResult = <Output>(result: StandardSchemaResult<Output>): Result<Output, readonly StandardSchemaIssue[]> =>
+  result.issues ? err(result.issues) : ok(result.value);
+
+/**
+ * Checks for a Promise or any other thenable, as returned by asynchronous validators.
+ *
+ * @internal
+ */
+const isThenable = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as { then?: unknown } | null)?.then === "function";
+
+/**
+ * Turns a synchronous Standard Schema validator into a function returning a Result.
+ *
+ * @example
+ * import { z } from "zod";
+ *
+ * const parseUser = fromStandardSchema(z.object({ name: z.string() }));
+ * parseUser({ name: "Alice" }); // ok({ name: "Alice" })
+ * parseUser({ name: 42 }); // err([{ message: "Expected string, received number", path: ["name"] }])
+ *
+ * @param schema - Any validator implementing the Standard Schema interface
+ * @returns A function validating its input into a Result of the output or the issues
+ * @throws {TypeError} If the schema validates asynchronously; use {@link fromStandardSchemaAsync} instead
+ */
+export function fromStandardSchema<S extends StandardSchema>(
+  schema: S,
+): (input: unknown) => Result<InferStandardSchema<S>, readonly StandardSchemaIssue[]> {
+  return (input) => {
+    const result = schema["~standard"].validate(input);
+    if (isThenable(result)) {
+      // The validation is abandoned, so a rejection must not surface as unhandled
+      result.then(undefined, () => {});
+      throw new TypeError("Schema validation must be synchronous, use fromStandardSchemaAsync instead");
+    }
+    return toResult(result as StandardSchemaResult<InferStandardSchema<S>>);
+  };
+}
+
+/**
+ * Turns a Standard Schema validator, synchronous or asynchronous, into a function
+ * returning a Promise of a Result.
+ *
+ * @example
+ * const parseUser = fromStandardSchemaAsync(UserSchema.refine(async (user) => isAvailable(user.name)));
+ * const result = await parseUser(body); // Result<User, readonly StandardSchemaIssue[]>
+ *
+ * @param schema - Any validator implementing the Standard Schema interface
+ * @returns A function validating its input into a Promise of a Result of the output or the issues
+ */
+export function fromStandardSchemaAsync<S extends StandardSchema>(
+  schema: S,
+): (input: unknown) => Promise<Result<InferStandardSchema<S>, readonly StandardSchemaIssue[]>> {
+  return async (input) => {
+    const result = await schema["~standard"].validate(input);
+    return toResult(result as StandardSchemaResult<InferStandardSchema<S>>);
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * Fluent module - Method-chaining wrappers over the functional core
+ *
+ * @remarks
+ * Opt-in: the root entry does not export these, so code using only the
+ * functions keeps its bundle free of the wrapper classes.
+ *
+ * @module fluent
+ */
+export * from "./result";
+export * from "./option";
@@ -0,0 +1,98 @@
+import {
+  type Option,
+  map as optionMap,
+  flatMap as optionFlatMap,
+  filter as optionFilter,
+  unwrap as optionUnwrap,
+  unwrapOr as optionUnwrapOr,
+  unwrapOrElse as optionUnwrapOrElse,
+  or as optionOr,
+  orElse as optionOrElse,
+  match as optionMatch,
+  tap as optionTap,
+  mapToResult as optionMapToResult,
+} from "@/option/option";
+
+import type { Result } from "@/result/result";
+
+/**
+ * A method-chaining view of an Option. Each method delegates to the function
+ * of the same name in the core, and `option` is the plain Option underneath.
+ *
+ * @example
+ * const port = O(fromNullable(env.PORT))
+ *   .map(Number)
+ *   .filter((n) => Number.isInteger(n))
+ *   .unwrapOr(3000);
+ */
+export class OptionChain<T> {
+  constructor(readonly option: Option<T>) {}
+
+  /** See the core `map`. */
+  map<U>(fn: (value: T) => U): OptionChain<U> {
+    return new OptionChain(optionMap(this.option, fn));
+  }
+
+  /** See the core `flatMap`. */
+  flatMap<U>(fn: (value: T) => Option<U>): OptionChain<U> {
+    return new OptionChain(optionFlatMap(this.option, fn));
+  }
+
+  /** See the core `filter`. */
+  filter(predicate: (value: T) => boolean): OptionChain<T> {
+    return new OptionChain(optionFilter(this.option, predicate));
+  }
+
+  /** See the core `tap`. */
+  tap(fn: (value: T) => void): OptionChain<T> {
+    return new OptionChain(optionTap(this.option, fn));
+  }
+
+  /** See the core `or`. */
+  or(alternative: Option<T>): OptionChain<T> {
+    return new OptionChain(optionOr(this.option, alternative));
+  }
+
+  /** See the core `orElse`. */
+  orElse(fn: () => Option<T>): OptionChain<T> {
+    return new OptionChain(optionOrElse(this.option, fn));
+  }
+
+  /** See the core `match`. */
+  match<R>(patterns: { some: (value: T) => R; none: () => R }): R {
+    return optionMatch(this.option, patterns);
+  }
+
+  /** See the core `unwrap`. */
+  unwrap(errorMsg?: string): T {
+    return optionUnwrap(this.option, errorMsg);
+  }
+
+  /** See the core `unwrapOr`. */
+  unwrapOr(defaultValue: T): T {
+    return optionUnwrapOr(this.option, defaultValue);
+  }
+
+  /** See the core `unwrapOrElse`. */
+  unwrapOrElse(defaultFn: () => T): T {
+    return optionUnwrapOrElse(this.option, defaultFn);
+  }
+
+  /** See the core `mapToResult`. */
+  toResult<E>(error: E): Result<T, E> {
+    return optionMapToResult(this.option, error);
+  }
+}
+
+/**
+ * Wraps an Option for method chaining.
+ *
+ * @example
+ * O(some(2)).map((n) => n * 2).unwrapOr(0); // 4
+ *
+ * @param option - The Option to wrap
+ * @returns An {@link OptionChain}
+ */
+export function O<T>(option: Option<T>): OptionChain<T> {
+  return new OptionChain(option);
+}
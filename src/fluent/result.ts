@@ -0,0 +1,192 @@
+import {
+  type AsyncResult,
+  type Result,
+  map as resultMap,
+  mapErr as resultMapErr,
+  flatMap as resultFlatMap,
+  filter as resultFilter,
+  unwrap as resultUnwrap,
+  unwrapOr as resultUnwrapOr,
+  unwrapOrElse as resultUnwrapOrElse,
+  orElse as resultOrElse,
+  recover as resultRecover,
+  match as resultMatch,
+  tap as resultTap,
+  tapErr as resultTapErr,
+  mapToOption as resultMapToOption,
+  mapAsync as resultMapAsync,
+  mapErrAsync as resultMapErrAsync,
+  flatMapAsync as resultFlatMapAsync,
+  tapAsync as resultTapAsync,
+  matchAsync as resultMatchAsync,
+  unwrapOrAsync as resultUnwrapOrAsync,
+} from "@/result/result";
+
+import type { Option } from "@/option/option";
+
+/**
+ * A method-chaining view of a Result. Each method delegates to the function
+ * of the same name in the core, and `result` is the plain Result underneath.
+ *
+ * @example
+ * const name = R(findUser(1))
+ *   .map((user) => user.name)
+ *   .mapErr((error) => `lookup failed: ${error}`)
+ *   .unwrapOr("anonymous");
+ */
+export class ResultChain<T, E> {
+  constructor(readonly result: Result<T, E>) {}
+
+  /** See the core `map`. */
+  map<U>(fn: (value: T) => U): ResultChain<U, E> {
+    return new ResultChain(resultMap(this.result, fn));
+  }
+
+  /** See the core `mapErr`. */
+  mapErr<F>(fn: (error: E) => F): ResultChain<T, F> {
+    return new ResultChain(resultMapErr(this.result, fn));
+  }
+
+  /** See the core `flatMap`. */
+  flatMap<U, F = E>(fn: (value: T) => Result<U, F>): ResultChain<U, E | F> {
+    return new ResultChain(resultFlatMap(this.result, fn));
+  }
+
+  /** See the core `filter`. */
+  filter(predicate: (value: T) => boolean, error: E): ResultChain<T, E> {
+    return new ResultChain(resultFilter(this.result, predicate, error));
+  }
+
+  /** See the core `tap`. */
+  tap(fn: (value: T) => void): ResultChain<T, E> {
+    return new ResultChain(resultTap(this.result, fn));
+  }
+
+  /** See the core `tapErr`. */
+  tapErr(fn: (error: E) => void): ResultChain<T, E> {
+    return new ResultChain(resultTapErr(this.result, fn));
+  }
+
+  /** See the core `orElse`. */
+  orElse<F>(fn: (error: E) => Result<T, F>): ResultChain<T, F> {
+    return new ResultChain(resultOrElse(this.result, fn));
+  }
+
+  /** See the core `recover`. */
+  recover(fn: (error: E) => T): ResultChain<T, never> {
+    return new ResultChain(resultRecover(this.result, fn));
+  }
+
+  /** See the core `mapAsync`; continues as an {@link AsyncResultChain}. */
+  mapAsync<U>(fn: (value: T) => U | Promise<U>): AsyncResultChain<U, E> {
+    return new AsyncResultChain(resultMapAsync(this.result, fn));
+  }
+
+  /** See the core `flatMapAsync`; continues as an {@link AsyncResultChain}. */
+  flatMapAsync<U, F = E>(fn: (value: T) => Result<U, F> | AsyncResult<U, F>): AsyncResultChain<U, E | F> {
+    return new AsyncResultChain(resultFlatMapAsync(this.result, fn));
+  }
+
+  /** See the core `match`. */
+  match<R>(patterns: { ok: (value: T) => R; err: (error: E) => R }): R {
+    return resultMatch(this.result, patterns);
+  }
+
+  /** See the core `unwrap`. */
+  unwrap(errorMsg?: string): T {
+    return resultUnwrap(this.result, errorMsg);
+  }
+
+  /** See the core `unwrapOr`. */
+  unwrapOr(defaultValue: T): T {
+    return resultUnwrapOr(this.result, defaultValue);
+  }
+
+  /** See the core `unwrapOrElse`. */
+  unwrapOrElse(defaultFn: () => T): T {
+    return resultUnwrapOrElse(this.result, defaultFn);
+  }
+
+  /** See the core `mapToOption`. */
+  toOption(): Option<T> {
+    return resultMapToOption(this.result);
+  }
+}
+
+/**
+ * A method-chaining view of an AsyncResult. Each step waits for the previous
+ * one; steps may return values or Promises. Awaiting the chain, or its
+ * `result`, gives the plain Result.
+ *
+ * @example
+ * const posts = await R(fetchUser(1))
+ *   .flatMap((user) => fetchPosts(user.id))
+ *   .map((posts) => posts.filter((post) => post.published))
+ *   .tap((posts) => log(`found ${posts.length} posts`)); // Result<Post[], FetchError>
+ */
+export class AsyncResultChain<T, E> implements PromiseLike<Result<T, E>> {
+  constructor(readonly result: AsyncResult<T, E>) {}
+
+  /** See the core `mapAsync`. */
+  map<U>(fn: (value: T) => U | Promise<U>): AsyncResultChain<U, E> {
+    return new AsyncResultChain(resultMapAsync(this.result, fn));
+  }
+
+  /** See the core `mapErrAsync`. */
+  mapErr<F>(fn: (error: E) => F | Promise<F>): AsyncResultChain<T, F> {
+    return new AsyncResultChain(resultMapErrAsync(this.result, fn));
+  }
+
+  /** See the core `flatMapAsync`. */
+  flatMap<U, F = E>(fn: (value: T) => Result<U, F> | AsyncResult<U, F>): AsyncResultChain<U, E | F> {
+    return new AsyncResultChain(resultFlatMapAsync(this.result, fn));
+  }
+
+  /** See the core `tapAsync`. */
+  tap(fn: (value: T) => void | Promise<void>): AsyncResultChain<T, E> {
+    return new AsyncResultChain(resultTapAsync(this.result, fn));
+  }
+
+  /** See the core `matchAsync`. */
+  match<R>(patterns: { ok: (value: T) => R | Promise<R>; err: (error: E) => R | Promise<R> }): Promise<R> {
+    return resultMatchAsync(this.result, patterns);
+  }
+
+  /** See the core `unwrapOrAsync`. */
+  unwrapOr(defaultValue: T): Promise<T> {
+    return resultUnwrapOrAsync(this.result, defaultValue);
+  }
+
+  /** Lets the chain be awaited, giving the plain Result. */
+  // eslint-disable-next-line unicorn/no-thenable -- awaiting the chain is the point of this class
+  then<A = Result<T, E>, B = never>(
+    onFulfilled?: ((result: Result<T, E>) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+  ): Promise<A | B> {
+    return this.result.then(onFulfilled, onRejected);
+  }
+}
+
+/**
+ * Checks for a Promise or any other thenable, including Promises from another realm.
+ *
+ * @internal
+ */
+const isThenable = (value: unknown): value is PromiseLike<unknown> =>
+  typeof (value as { then?: unknown } | null)?.then === "function";
+
+/**
+ * Wraps a Result, or a Promise of one, for method chaining.
+ *
+ * @example
+ * R(parseAge(input)).map((age) => age + 1).unwrapOr(0);
+ * await R(fetchUser(1)).map((user) => user.name); // Result<string, FetchError>
+ *
+ * @param input - A Result, or a Promise or other thenable of a Result
+ * @returns A {@link ResultChain}, or an {@link AsyncResultChain} for a thenable
+ */
+export function R<T, E>(input: PromiseLike<Result<T, E>>): AsyncResultChain<T, E>;
+export function R<T, E>(input: Result<T, E>): ResultChain<T, E>;
+export function R<T, E>(input: Result<T, E> | PromiseLike<Result<T, E>>): ResultChain<T, E> | AsyncResultChain<T, E> {
+  return isThenable(input) ? new AsyncResultChain(Promise.resolve(input)) : new ResultChain(input);
+}
@@ -5,32 +5,63 @@
  */
 
 // Re-export core Option types and functions
-export type { Option } from "./option";
+export type { Option, OptionJSON } from "./option";
 export {
   some,
   none,
   isSome,
   isNone,
+  isOption,
+  reviveOption,
   map as mapOption,
   flatMap as flatMapOption,
   filter as filterOption,
   unwrap as unwrapOption,
   unwrapOr as unwrapOptionOr,
   unwrapOrElse as unwrapOptionOrElse,
+  or as orOption,
+  orElse as orElseOption,
   fromNullable as fromNullableOption,
   combine as combineOption,
+  combineObject as combineObjectOption,
   match as matchOption,
   tap as tapOption,
+  equals as equalsOption,
+  compare as compareOption,
   mapToResult,
+  toJSON as toJSONOption,
+  fromJSON as fromJSONOption,
+  gen as genOption,
+  genAsync as genOptionAsync,
 } from "./option";
 
 // Re-export core Result types and functions
-export type { Result } from "./result";
+export type {
+  Result,
+  AsyncResult,
+  TraverseOptions,
+  Backoff,
+  RetryPolicy,
+  TagOf,
+  TagHandlers,
+  TaggedErrorClass,
+  TaggedErrorInstance,
+  ResultJSON,
+  ErrorJSON,
+  ResultEncoders,
+  ResultDecoders,
+  NodeCallback,
+  FetchError,
+  FetchResultOptions,
+} from "./result";
 export {
   ok,
   err,
   isOk,
   isErr,
+  isResult,
+  reviveResult,
+  reviver,
   map as mapResult,
   mapErr as mapErrorResult,
   flatMap as flatMapResult,
@@ -38,19 +69,88 @@ export {
   unwrap as unwrapResult,
   unwrapOr as unwrapResultOr,
   unwrapOrElse as unwrapResultOrElse,
+  orElse as orElseResult,
+  recover as recoverResult,
+  recoverWith as recoverWithResult,
   combine as combineResult,
   combineAll as combineAllResult,
+  combineObject as combineObjectResult,
+  combineAllObject as combineAllObjectResult,
   match as matchResult,
   tap as tapResult,
   tapErr as tapErrorResult,
+  equals as equalsResult,
+  compare as compareResult,
   mapToOption,
   fromTry,
   fromTryWithError,
   fromPromise,
   fromPromiseWithError,
   toPromise,
+  fromNodeCallback,
+  toNodeCallback,
   andThen,
+  mapAsync as mapResultAsync,
+  mapErrAsync as mapErrorResultAsync,
+  flatMapAsync as flatMapResultAsync,
+  tapAsync as tapResultAsync,
+  matchAsync as matchResultAsync,
+  unwrapOrAsync as unwrapResultOrAsync,
+  combineAsync as combineResultAsync,
+  traverseAsync as traverseResultAsync,
+  retry,
+  withTimeout,
+  fromPromiseWithSignal,
+  andThenWithSignal,
+  TimeoutError,
+  Aborted,
+  fetchResult,
+  NetworkError,
+  HttpError,
+  // DecodeError here is the decoder's error type, so fetchResult's variant is renamed
+  DecodeError as FetchDecodeError,
+  TaggedError,
+  catchTag,
+  catchTags,
+  context,
+  ContextError,
+  errorChain,
+  formatErrorChain,
+  toJSON as toJSONResult,
+  fromJSON as fromJSONResult,
+  errorToJSON,
+  errorFromJSON,
+  gen as genResult,
+  genAsync as genResultAsync,
 } from "./result";
 
+// Re-export core Validation types and functions
+export type { Validation, NonEmptyArray, Merge } from "./validation";
+export {
+  valid,
+  invalid,
+  invalidAll,
+  isValid,
+  isInvalid,
+  concatErrors,
+  mergeErrors,
+  map as mapValidation,
+  mapErrors as mapErrorsValidation,
+  ap as apValidation,
+  zipWith as zipWithValidation,
+  match as matchValidation,
+  fromResult as fromResultValidation,
+  toResult as toResultValidation,
+} from "./validation";
+
+// Re-export decoders as a namespace, e.g. D.object({ name: D.string() })
+export type { Decoder, DecodeError, StandardSchema, StandardSchemaIssue } from "./decoder";
+export * as D from "./decoder";
+
+// Re-export pipeable (data-last) combinators as namespaces, e.g. pipe(ok(1), R.map((n) => n + 1))
+export * as O from "./option/pipeable";
+export * as R from "./result/pipeable";
+
 // Re-export Utility functions
-export { pipe, flow, curry, uncurry, tupled, untupled } from "./utils";
+export type { Eq, Ord } from "./utils";
+export { pipe, flow, curry, uncurry, tupled, untupled, deepEqual, naturalOrder } from "./utils";
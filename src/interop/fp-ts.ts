@@ -0,0 +1,77 @@
+import { type Option, some, none } from "@/option/option";
+import { type Result, ok, err } from "@/result/result";
+
+/**
+ * The shape of an fp-ts `Either`: a `Left` holding an error or a `Right` holding a value.
+ *
+ * @remarks
+ * fp-ts represents its data types as plain tagged objects, so values of this
+ * type are real fp-ts values and the adapters need no dependency on fp-ts.
+ *
+ * @param E - The type of the error
+ * @param A - The type of the success value
+ */
+export type Either<E, A> = { readonly _tag: "Left"; readonly left: E } | { readonly _tag: "Right"; readonly right: A };
+
+/**
+ * The shape of an fp-ts `Option`: `None`, or `Some` holding a value.
+ *
+ * @param A - The type of the value
+ */
+export type FpTsOption<A> = { readonly _tag: "None" } | { readonly _tag: "Some"; readonly value: A };
+
+/**
+ * Converts an fp-ts Either into a Result: `Right` becomes Ok and `Left` becomes Err.
+ *
+ * @example
+ * fromEither({ _tag: "Right", right: 42 }); // Ok(42)
+ * fromEither(E.left("boom")); // Err("boom")
+ *
+ * @param either - The Either to convert
+ * @returns The equivalent Result
+ */
+export function fromEither<E, A>(either: Either<E, A>): Result<A, E> {
+  return either._tag === "Right" ? ok(either.right) : err(either.left);
+}
+
+/**
+ * Converts a Result into an fp-ts Either: Ok becomes `Right` and Err becomes `Left`.
+ *
+ * @example
+ * toEither(ok(42)); // { _tag: "Right", right: 42 }
+ * pipe(toEither(parseConfig(input)), E.map(applyDefaults));
+ *
+ * @param result - The Result to convert
+ * @returns The equivalent Either
+ */
+export function toEither<T, E>(result: Result<T, E>): Either<E, T> {
+  return result.ok ? { _tag: "Right", right: result.value } : { _tag: "Left", left: result.error };
+}
+
+/**
+ * Converts an fp-ts Option into an Option.
+ *
+ * @example
+ * fromFpTsOption({ _tag: "Some", value: 42 }); // Some(42)
+ * fromFpTsOption(O.none); // None
+ *
+ * @param option - The fp-ts Option to convert
+ * @returns The equivalent Option
+ */
+export function fromFpTsOption<A>(option: FpTsOption<A>): Option<A> {
+  return option._tag === "Some" ? some(option.value) : none();
+}
+
+/**
+ * Converts an Option into an fp-ts Option.
+ *
+ * @example
+ * toFpTsOption(some(42)); // { _tag: "Some", value: 42 }
+ * toFpTsOption(none()); // { _tag: "None" }
+ *
+ * @param option - The Option to convert
+ * @returns The equivalent fp-ts Option
+ */
+export function toFpTsOption<T>(option: Option<T>): FpTsOption<T> {
+  return option.some ? { _tag: "Some", value: option.value } : { _tag: "None" };
+}
@@ -0,0 +1,10 @@
+/**
+ * Interop module - Converts to and from the types of other libraries
+ *
+ * @remarks
+ * The adapters go by structural shape, so none of the libraries is a dependency.
+ *
+ * @module interop
+ */
+export * from "./neverthrow";
+export * from "./fp-ts";
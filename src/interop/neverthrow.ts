@@ -0,0 +1,76 @@
+import { type Result, ok, err } from "@/result/result";
+
+/**
+ * The structural shape of a neverthrow `Result`: an object with an `isOk()`
+ * method, holding `value` when it is an Ok and `error` when it is an Err.
+ *
+ * @remarks
+ * Declared here so the adapters need no dependency on neverthrow; its `Ok`
+ * and `Err` classes satisfy this type as they are.
+ *
+ * @param T - The type of the success value
+ * @param E - The type of the error
+ */
+export type NeverthrowResult<T, E> =
+  | { isOk(): boolean; isErr(): boolean; readonly value: T }
+  | { isOk(): boolean; isErr(): boolean; readonly error: E };
+
+/**
+ * The constructors to build neverthrow Results with, i.e. neverthrow's own `ok` and `err`.
+ *
+ * @param T - The type of the success value
+ * @param E - The type of the error
+ * @param R - The type the constructors build
+ */
+export type NeverthrowConstructors<T, E, R> = {
+  readonly ok: (value: T) => R;
+  readonly err: (error: E) => R;
+};
+
+/**
+ * Converts a neverthrow Result into a Result, going by its shape.
+ *
+ * @example
+ * import { ok as ntOk } from "neverthrow";
+ *
+ * fromNeverthrow(ntOk(42)); // Ok(42)
+ * fromNeverthrow(legacyParse(input)); // Result<Config, ParseError>
+ *
+ * @param result - A neverthrow Result, or any object of the same shape
+ * @returns The equivalent Result
+ */
+export function fromNeverthrow<T, E>(result: NeverthrowResult<T, E>): Result<T, E> {
+  if (result.isOk()) return ok((result as { readonly value: T }).value);
+  return err((result as { readonly error: E }).error);
+}
+
+/**
+ * Converts a Result into a neverthrow Result.
+ *
+ * @remarks
+ * Pass neverthrow's `ok` and `err` to get real neverthrow instances, with
+ * their methods. Without them, the Result is converted to a plain object of
+ * the same shape, enough for code that only checks `isOk()` and reads
+ * `value` or `error`.
+ *
+ * @example
+ * import { ok as ntOk, err as ntErr } from "neverthrow";
+ *
+ * legacyHandler(toNeverthrow(parseConfig(input), { ok: ntOk, err: ntErr }));
+ * toNeverthrow(ok(42)).isOk(); // true
+ *
+ * @param result - The Result to convert
+ * @param constructors - neverthrow's `ok` and `err`
+ * @returns The equivalent neverthrow Result
+ */
+export function toNeverthrow<T, E>(result: Result<T, E>): NeverthrowResult<T, E>;
+export function toNeverthrow<T, E, R>(result: Result<T, E>, constructors: NeverthrowConstructors<T, E, R>): R;
+export function toNeverthrow<T, E, R>(
+  result: Result<T, E>,
+  constructors?: NeverthrowConstructors<T, E, R>,
+): R | NeverthrowResult<T, E> {
+  if (constructors) return result.ok ? constructors.ok(result.value) : constructors.err(result.error);
+  return result.ok
+    ? { isOk: () => true, isErr: () => false, value: result.value }
+    : { isOk: () => false, isErr: () => true, error: result.error };
+}
@@ -4,3 +4,4 @@
  * @module option
  */
 export * from "./option";
+export * from "./json";
@@ -0,0 +1,61 @@
+import { type Result, err, ok } from "@/result";
+
+import { type Option, none, some } from "./option";
+
+import type { DecodeError, Decoder } from "@/decoder";
+
+/**
+ * The wire format of an Option, as produced by {@link toJSON} and read by {@link fromJSON}.
+ *
+ * @param T - The encoded value type
+ */
+export type OptionJSON<T = unknown> = { readonly _tag: "Some"; readonly value: T } | { readonly _tag: "None" };
+
+/**
+ * Turns an Option into its wire format, ready for `JSON.stringify`.
+ *
+ * @example
+ * JSON.stringify(toJSON(some(42))); // '{"_tag":"Some","value":42}'
+ * JSON.stringify(toJSON(none())); // '{"_tag":"None"}'
+ *
+ * @param option - The Option to encode
+ * @param encode - Optional encoder for the value (default: the value as is)
+ * @returns The Option in wire format
+ */
+export function toJSON<T>(option: Option<T>, encode: (value: T) => unknown = (value) => value): OptionJSON {
+  return option.some ? { _tag: "Some", value: encode(option.value) } : { _tag: "None" };
+}
+
+/**
+ * Reads an Option from its wire format, validating the value with the given decoder.
+ *
+ * @remarks
+ * Without a decoder the value is typed `unknown`. Decoder failures are
+ * reported with their path prefixed by `value`.
+ *
+ * @example
+ * fromJSON({ _tag: "Some", value: "Alice" }, D.string()); // ok(some("Alice"))
+ * fromJSON({ _tag: "Maybe" }); // err({ path: ["_tag"], message: 'expected "Some" | "None", received "Maybe"' })
+ *
+ * @param json - The parsed wire format
+ * @param decode - Optional decoder for the value
+ * @returns An Ok with the decoded Option, or an Err with a DecodeError if the input is not a valid Option
+ */
+export function fromJSON<T = unknown>(json: unknown, decode?: Decoder<T>): Result<Option<T>, DecodeError> {
+  if (typeof json !== "object" || json === null) {
+    return err({ path: [], message: `expected object, received ${json === null ? "null" : typeof json}` });
+  }
+  const { _tag: tag, value } = json as Record<string, unknown>;
+  if (tag === "None") return ok(none());
+  if (tag !== "Some") {
+    return err({
+      path: ["_tag"],
+      message: `expected "Some" | "None", received ${typeof tag === "string" ? JSON.stringify(tag) : typeof tag}`,
+    });
+  }
+  if (!decode) return ok(some(value as T));
+  const decoded = decode(value);
+  return decoded.ok
+    ? ok(some(decoded.value))
+    : err({ path: ["value", ...decoded.error.path], message: decoded.error.message });
+}
@@ -1,11 +1,45 @@
 import { type Result, ok, err } from "@/result";
+import { type Eq, type Ord, deepEqual, naturalOrder } from "@/utils";
 
 /**
  * Symbol used to identify Option objects.
  *
+ * @remarks
+ * Registered with `Symbol.for`, so Options created by another copy of the
+ * library (e.g. a second bundle) carry the same brand.
+ *
  * @internal
  */
-export const OPTION_BRAND = Symbol("OPTION_BRAND");
+export const OPTION_BRAND: unique symbol = Symbol.for("@railway-ts/core/OPTION_BRAND");
+
+/**
+ * The Some variant of an Option.
+ *
+ * @remarks
+ * Iterating a Some returns its value without yielding, which is what lets
+ * `yield*` unwrap it inside {@link gen}.
+ *
+ * @param T - The type of the contained value
+ */
+export type Some<T> = {
+  readonly some: true;
+  readonly value: T;
+  readonly [OPTION_BRAND]: "some";
+  [Symbol.iterator](): Generator<never, T, unknown>;
+};
+
+/**
+ * The None variant of an Option.
+ *
+ * @remarks
+ * Iterating a None yields the None itself, which is what lets {@link gen}
+ * short-circuit on the first missing value.
+ */
+export type None = {
+  readonly some: false;
+  readonly [OPTION_BRAND]: "none";
+  [Symbol.iterator](): Generator<None, never, unknown>;
+};
 
 /**
  * Represents an Option type.
@@ -17,16 +51,26 @@ export const OPTION_BRAND = Symbol("OPTION_BRAND");
  * @param T - The type of the value contained in the Some variant
  * @returns An Option containing a value or nothing
  */
-export type Option<T> =
-  | {
-      readonly some: true;
-      readonly value: T;
-      readonly [OPTION_BRAND]: "some";
-    }
-  | {
-      readonly some: false;
-      readonly [OPTION_BRAND]: "none";
-    };
+export type Option<T> = Some<T> | None;
+
+/**
+ * Extracts the value type of an Option (or union of Options).
+ *
+ * @internal
+ */
+type SomeValue<O> = O extends Some<infer T> ? T : never;
+
+/**
+ * Shared iterator for both variants, so every Option can be unwrapped with `yield*`.
+ *
+ * @internal
+ */
+function* iterate<T>(this: Option<T>): Generator<None, T, unknown> {
+  if (this.some) return this.value;
+  yield this;
+  // gen() never resumes a generator after it yields a None
+  return undefined as never;
+}
 
 /**
  * Creates an Option containing a value.
@@ -39,6 +83,7 @@ export function some<T>(value: T): Option<T> {
     some: true,
     value,
     [OPTION_BRAND]: "some",
+    [Symbol.iterator]: iterate as Some<T>[typeof Symbol.iterator],
   };
 }
 
@@ -57,6 +102,7 @@ export function none<T>(): Option<T> {
   return {
     some: false,
     [OPTION_BRAND]: "none",
+    [Symbol.iterator]: iterate,
   };
 }
 
@@ -73,11 +119,7 @@ export function none<T>(): Option<T> {
  * @param option - The option to check
  * @returns A type predicate indicating if the option is a Some variant
  */
-export function isSome<T>(option: Option<T>): option is {
-  readonly some: true;
-  readonly value: T;
-  readonly [OPTION_BRAND]: "some";
-} {
+export function isSome<T>(option: Option<T>): option is Some<T> {
   return option.some;
 }
 
@@ -94,13 +136,56 @@ export function isSome<T>(option: Option<T>): option is {
  * @param option - The option to check
  * @returns A type predicate indicating if the option is a None variant
  */
-export function isNone<T>(option: Option<T>): option is {
-  readonly some: false;
-  readonly [OPTION_BRAND]: "none";
-} {
+export function isNone<T>(option: Option<T>): option is None {
   return !option.some;
 }
 
+/**
+ * Type guard that checks if an unknown value is an Option.
+ *
+ * @remarks
+ * Only values created by `some` and `none` (from any copy of the library) are
+ * recognized. Plain `{ some, value }` objects, such as an Option that went through
+ * `JSON.stringify` or `structuredClone`, are not; use {@link reviveOption} for those.
+ *
+ * @example
+ * if (isOption(message.data)) {
+ *   console.log(message.data.some);
+ * }
+ *
+ * @param value - The value to check
+ * @returns A type predicate indicating if the value is an Option
+ */
+export function isOption(value: unknown): value is Option<unknown> {
+  return typeof value === "object" && value !== null && OPTION_BRAND in value;
+}
+
+/**
+ * Rebuilds an Option from its plain `{ some: true, value }` or `{ some: false }`
+ * shape, as left behind by `JSON.stringify`, `structuredClone` or `postMessage`.
+ *
+ * @remarks
+ * Objects with any other keys are not treated as Options. The contained value
+ * is not validated; `T` is assumed.
+ *
+ * @example
+ * const cloned = structuredClone(some(42)); // { some: true, value: 42 }, no longer an Option
+ * const option = reviveOption<number>(cloned); // some(42)
+ *
+ * @param value - The value to rebuild
+ * @returns The rebuilt Option, the value itself if it already is one, or undefined if it has another shape
+ */
+export function reviveOption<T = unknown>(value: unknown): Option<T> | undefined {
+  if (isOption(value)) return value as Option<T>;
+  if (typeof value !== "object" || value === null) return undefined;
+
+  const shape = value as { some?: unknown; value?: unknown };
+  const keys = Object.keys(value).toSorted().join(",");
+  if (keys === "some,value" && shape.some === true) return some(shape.value as T);
+  if (keys === "some" && shape.some === false) return none();
+  return undefined;
+}
+
 /**
  * Maps the value inside an Option using a transformation function.
  *
@@ -201,6 +286,36 @@ export function unwrapOrElse<T>(option: Option<T>, defaultFn: () => T): T {
   return option.some ? option.value : defaultFn();
 }
 
+/**
+ * Returns the Option if it is some, otherwise the alternative Option.
+ * The alternative is evaluated eagerly; use orElse to compute it only when needed.
+ *
+ * @example
+ * const port = or(fromNullable(env.PORT), some("3000")); // some(env.PORT) or some("3000")
+ *
+ * @param option - The Option to check
+ * @param alternative - The Option to return if the first is none
+ * @returns The original Option if some, otherwise the alternative
+ */
+export function or<T>(option: Option<T>, alternative: Option<T>): Option<T> {
+  return option.some ? option : alternative;
+}
+
+/**
+ * Returns the Option if it is some, otherwise calls a function for an alternative Option.
+ * Unlike or, this only computes the alternative when needed.
+ *
+ * @example
+ * const user = orElse(findInCache(id), () => findInDatabase(id));
+ *
+ * @param option - The Option to check
+ * @param fn - A function that returns the alternative Option if the first is none
+ * @returns The original Option if some, otherwise the result of calling fn
+ */
+export function orElse<T>(option: Option<T>, fn: () => Option<T>): Option<T> {
+  return option.some ? option : fn();
+}
+
 /**
  * Creates an Option from a nullable value.
  *
@@ -289,6 +404,32 @@ export function combine<T>(options: readonly Option<T>[]): Option<T[]> {
   return some(values);
 }
 
+/**
+ * Combines a record of Options into a single Option containing a record of values.
+ * Returns None if any Option in the record is None.
+ *
+ * @example
+ * const address = combineObject({
+ *   host: fromNullable(env.HOST), // Option<string>
+ *   port: fromNullable(env.PORT), // Option<string>
+ * }); // Option<{ host: string; port: string }>
+ *
+ * @param options - A record of Options to combine
+ * @returns An Option containing a record of all values if all inputs are Some, or None if any input is None
+ */
+export function combineObject<O extends Record<string, Option<unknown>>>(
+  options: O,
+): Option<{ [K in keyof O]: SomeValue<O[K]> }> {
+  const entries: [string, unknown][] = [];
+
+  for (const [key, option] of Object.entries(options)) {
+    if (!option.some) return none();
+    entries.push([key, option.value]);
+  }
+
+  return some(Object.fromEntries(entries) as { [K in keyof O]: SomeValue<O[K]> });
+}
+
 /**
  * Pattern matches on an Option to handle both Some and None cases.
  *
@@ -349,6 +490,45 @@ export function tap<T>(option: Option<T>, fn: (value: T) => void): Option<T> {
   return option;
 }
 
+/**
+ * Checks whether two Options are equal: both None, or both Some with equal values.
+ *
+ * @example
+ * equals(some({ id: 1 }), some({ id: 1 })); // true (deep equality by default)
+ * equals(some("Alice"), some("alice"), { value: (a, b) => a.toLowerCase() === b.toLowerCase() }); // true
+ * equals(some(1), none()); // false
+ *
+ * @param a - The first Option
+ * @param b - The second Option
+ * @param eq - How to compare the values; `value` defaults to {@link deepEqual}
+ * @returns Whether the Options are equal
+ */
+export function equals<T>(a: Option<T>, b: Option<T>, eq: { readonly value?: Eq<T> } = {}): boolean {
+  const { value: eqValue = deepEqual } = eq;
+  if (!a.some || !b.some) return a.some === b.some;
+  return eqValue(a.value, b.value);
+}
+
+/**
+ * Orders two Options: None before Some, then Somes by their values.
+ * Can be passed directly to `Array.prototype.sort` for primitive values.
+ *
+ * @example
+ * [some(2), none(), some(1)].sort(compare); // [none(), some(1), some(2)]
+ * users.sort((a, b) => compare(a, b, { value: (x, y) => x.name.localeCompare(y.name) }));
+ *
+ * @param a - The first Option
+ * @param b - The second Option
+ * @param ord - How to order the values; `value` defaults to {@link naturalOrder}
+ * @returns A negative number if `a` comes first, a positive number if `b` does, 0 if they are equal
+ * @throws {TypeError} If two Somes hold values without a natural order and no `ord.value` is given
+ */
+export function compare<T>(a: Option<T>, b: Option<T>, ord: { readonly value?: Ord<T> } = {}): number {
+  const { value: ordValue = naturalOrder } = ord;
+  if (!a.some || !b.some) return Number(a.some) - Number(b.some);
+  return ordValue(a.value, b.value);
+}
+
 /**
  * Converts an Option to a Result.
  * If the Option is Some, returns an Ok variant with the value.
@@ -369,3 +549,66 @@ export function tap<T>(option: Option<T>, fn: (value: T) => void): Option<T> {
 export function mapToResult<T, E>(option: Option<T>, error: E): Result<T, E> {
   return option.some ? ok(option.value) : err(error);
 }
+
+/**
+ * Runs a generator in do-notation style, unwrapping Options with `yield*`.
+ *
+ * @remarks
+ * Inside the generator, `yield* option` evaluates to the value of a Some, or stops
+ * the generator and makes `gen` return None. `finally` blocks in the body still run
+ * when the generator is stopped early.
+ *
+ * Importing the module as a namespace gives the `Option.gen` spelling:
+ * `import * as Option from "@railway-ts/core/option"`.
+ *
+ * @example
+ * const config = { host: "localhost", port: "8080" } as Record<string, string | undefined>;
+ *
+ * const address = gen(function* () {
+ *   const host = yield* fromNullable(config.host);
+ *   const port = yield* fromNullable(config.port);
+ *   return `${host}:${port}`;
+ * }); // some("localhost:8080")
+ *
+ * @param body - A generator function that yields Options with `yield*` and returns the final value
+ * @returns A Some with the generator's return value, or None if any yielded Option was None
+ */
+export function gen<T>(body: () => Generator<None, T, unknown>): Option<T> {
+  const iterator: Iterator<None, T, unknown> = body();
+  const step = iterator.next();
+  if (step.done) {
+    return some(step.value);
+  }
+  iterator.return?.();
+  return none();
+}
+
+/**
+ * Runs an async generator in do-notation style, unwrapping Options with `yield*`.
+ *
+ * @remarks
+ * The async counterpart to {@link gen}. Await Promise-returning steps before
+ * unwrapping them, i.e. `yield* await lookup()`.
+ *
+ * @example
+ * const findUser = async (id: number): Promise<Option<User>> => ...;
+ * const findManager = async (user: User): Promise<Option<User>> => ...;
+ *
+ * const managerName = await genAsync(async function* () {
+ *   const user = yield* await findUser(1);
+ *   const manager = yield* await findManager(user);
+ *   return manager.name;
+ * }); // Option<string>
+ *
+ * @param body - An async generator function that yields Options with `yield*` and returns the final value
+ * @returns A Promise of a Some with the generator's return value, or None if any yielded Option was None
+ */
+export async function genAsync<T>(body: () => AsyncGenerator<None, T, unknown>): Promise<Option<T>> {
+  const iterator: AsyncIterator<None, T, unknown> = body();
+  const step = await iterator.next();
+  if (step.done) {
+    return some(step.value);
+  }
+  await iterator.return?.();
+  return none();
+}
@@ -0,0 +1,183 @@
+import { type Result } from "@/result";
+
+import {
+  type Option,
+  map as optionMap,
+  flatMap as optionFlatMap,
+  filter as optionFilter,
+  unwrap as optionUnwrap,
+  unwrapOr as optionUnwrapOr,
+  unwrapOrElse as optionUnwrapOrElse,
+  or as optionOr,
+  orElse as optionOrElse,
+  match as optionMatch,
+  tap as optionTap,
+  mapToResult as optionMapToResult,
+} from "./option";
+
+/**
+ * Pipeable (data-last) variant of {@link optionMap | map}.
+ *
+ * @example
+ * const doubled = pipe(some(21), map((n) => n * 2)); // some(42)
+ *
+ * @param fn - The function to apply to the contained value
+ * @returns A function that takes an Option and returns a new Option containing the transformed value
+ */
+export const map =
+  <T, U>(fn: (value: T) => U) =>
+  (option: Option<T>): Option<U> =>
+    optionMap(option, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link optionFlatMap | flatMap}.
+ *
+ * @example
+ * const head = pipe(
+ *   some([1, 2, 3]),
+ *   flatMap((xs) => fromNullable(xs[0])),
+ * ); // some(1)
+ *
+ * @param fn - The function to apply to the contained value, returning an Option
+ * @returns A function that takes an Option and returns the Option produced by `fn`, or none
+ */
+export const flatMap =
+  <T, U>(fn: (value: T) => Option<U>) =>
+  (option: Option<T>): Option<U> =>
+    optionFlatMap(option, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link optionFilter | filter}.
+ *
+ * @example
+ * const checked = pipe(some(5), filter((n) => n > 10)); // none()
+ *
+ * @param predicate - A function that determines if the value should be kept
+ * @returns A function that takes an Option and returns it unchanged or as None
+ */
+export const filter =
+  <T>(predicate: (value: T) => boolean) =>
+  (option: Option<T>): Option<T> =>
+    optionFilter(option, predicate);
+
+/**
+ * Pipeable (data-last) variant of {@link optionUnwrap | unwrap}.
+ *
+ * @remarks
+ * Like its data-first counterpart, this is intended for prototyping only.
+ *
+ * @example
+ * const value = pipe(some(42), unwrap()); // 42
+ *
+ * @param errorMsg - Optional custom error message to throw when the Option is none
+ * @returns A function that takes an Option and returns the contained value
+ * @throws If the Option is none
+ */
+export const unwrap =
+  (errorMsg?: string) =>
+  <T>(option: Option<T>): T =>
+    optionUnwrap(option, errorMsg);
+
+/**
+ * Pipeable (data-last) variant of {@link optionUnwrapOr | unwrapOr}.
+ *
+ * @example
+ * const value = pipe(none<number>(), unwrapOr(0)); // 0
+ *
+ * @param defaultValue - The value to return if the Option is none
+ * @returns A function that takes an Option and returns the contained value or the default
+ */
+export const unwrapOr =
+  <T>(defaultValue: T) =>
+  (option: Option<T>): T =>
+    optionUnwrapOr(option, defaultValue);
+
+/**
+ * Pipeable (data-last) variant of {@link optionUnwrapOrElse | unwrapOrElse}.
+ *
+ * @example
+ * const value = pipe(none<number>(), unwrapOrElse(() => expensiveComputation()));
+ *
+ * @param defaultFn - A function that returns a default value if the Option is none
+ * @returns A function that takes an Option and returns the contained value or the computed default
+ */
+export const unwrapOrElse =
+  <T>(defaultFn: () => T) =>
+  (option: Option<T>): T =>
+    optionUnwrapOrElse(option, defaultFn);
+
+/**
+ * Pipeable (data-last) variant of {@link optionOr | or}.
+ *
+ * @example
+ * const port = pipe(fromNullable(env.PORT), or(some("3000")));
+ *
+ * @param alternative - The Option to return if the input is none
+ * @returns A function that takes an Option and returns it if some, otherwise the alternative
+ */
+export const or =
+  <T>(alternative: Option<T>) =>
+  (option: Option<T>): Option<T> =>
+    optionOr(option, alternative);
+
+/**
+ * Pipeable (data-last) variant of {@link optionOrElse | orElse}.
+ *
+ * @example
+ * const user = pipe(findInCache(id), orElse(() => findInDatabase(id)));
+ *
+ * @param fn - A function that returns the alternative Option if the input is none
+ * @returns A function that takes an Option and returns it if some, otherwise the result of calling fn
+ */
+export const orElse =
+  <T>(fn: () => Option<T>) =>
+  (option: Option<T>): Option<T> =>
+    optionOrElse(option, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link optionMatch | match}.
+ *
+ * @example
+ * const message = pipe(
+ *   some(42),
+ *   match({
+ *     some: (value) => `Got value: ${value}`,
+ *     none: () => "Got nothing",
+ *   }),
+ * ); // "Got value: 42"
+ *
+ * @param patterns - An object containing handler functions for Some and None cases
+ * @returns A function that takes an Option and returns the result of the matching handler
+ */
+export const match =
+  <T, R>(patterns: { some: (value: T) => R; none: () => R }) =>
+  (option: Option<T>): R =>
+    optionMatch(option, patterns);
+
+/**
+ * Pipeable (data-last) variant of {@link optionTap | tap}.
+ *
+ * @example
+ * const logged = pipe(some(42), tap((n) => console.log(n))); // logs 42, returns some(42)
+ *
+ * @param fn - The function to execute with the value if Some
+ * @returns A function that takes an Option and returns it unchanged
+ */
+export const tap =
+  <T>(fn: (value: T) => void) =>
+  (option: Option<T>): Option<T> =>
+    optionTap(option, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link optionMapToResult | mapToResult}.
+ *
+ * @example
+ * const result = pipe(none<number>(), mapToResult("missing")); // err("missing")
+ *
+ * @param error - The error to return if the Option is None
+ * @returns A function that takes an Option and returns a Result
+ */
+export const mapToResult =
+  <E>(error: E) =>
+  <T>(option: Option<T>): Result<T, E> =>
+    optionMapToResult(option, error);
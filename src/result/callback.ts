@@ -0,0 +1,91 @@
+import { type AsyncResult, type Result, ok, err } from "./result";
+
+/**
+ * A Node-style callback: called with an error, or with `null` and the value.
+ *
+ * @param T - The type of the success value
+ * @param E - The type of the error
+ */
+export type NodeCallback<T, E = unknown> = (error: E | null, value?: T) => void;
+
+/**
+ * Turns a function that takes a Node-style callback last into one that
+ * returns an AsyncResult, keeping its parameter types.
+ *
+ * @remarks
+ * An error of `null` or `undefined` means success, and only the first value
+ * passed to the callback is kept. As with `util.promisify`, methods that use
+ * `this` must be bound first, and a synchronous throw rejects the Promise.
+ * For overloaded functions TypeScript infers from the last overload; wrap
+ * the call in an arrow function to pick another.
+ *
+ * @example
+ * import { randomBytes } from "node:crypto";
+ * import { readFile } from "node:fs";
+ *
+ * const randomBytesResult = fromNodeCallback(randomBytes);
+ * await randomBytesResult(16); // Result<Buffer, Error>
+ *
+ * const readText = fromNodeCallback((path: string, callback: NodeCallback<string, NodeJS.ErrnoException>) =>
+ *   readFile(path, "utf8", callback),
+ * );
+ * await readText("config.json"); // Result<string, NodeJS.ErrnoException>
+ *
+ * @param fn - The callback-last function to wrap
+ * @returns A function taking the same arguments, minus the callback, that resolves with a Result
+ */
+export function fromNodeCallback<A extends unknown[], T = void, E = unknown>(
+  fn: (...args: [...A, NodeCallback<T, E>]) => void,
+): (...args: A) => AsyncResult<T, E> {
+  return (...args) =>
+    new Promise((resolve) => {
+      fn(...args, (error, value) => {
+        resolve(error === null || error === undefined ? ok(value as T) : err(error));
+      });
+    });
+}
+
+/**
+ * Turns a function that returns a Result or AsyncResult into one that takes
+ * a Node-style callback last, for handing to callback-based frameworks.
+ *
+ * @remarks
+ * The callback is always called asynchronously, once: with `null` and the
+ * value for an Ok, or with the error for an Err. As with `util.callbackify`,
+ * if `fn` throws or its Promise rejects, the reason is passed as the error,
+ * so the callback's error is typed `unknown` rather than `E`. A throw from the
+ * callback itself is rethrown on the next tick, as an uncaught exception
+ * rather than an unhandled rejection.
+ *
+ * @example
+ * const loadUser = async (id: string): AsyncResult<User, NotFound> => ...;
+ *
+ * legacyRouter.get("/users/:id", toNodeCallback(loadUser));
+ * toNodeCallback(loadUser)("42", (error, user) => {
+ *   if (error) return console.error(error);
+ *   console.log(user);
+ * });
+ *
+ * @param fn - The Result-returning function to wrap
+ * @returns A function taking the same arguments plus a callback
+ */
+export function toNodeCallback<A extends unknown[], T, E>(
+  fn: (...args: A) => Result<T, E> | AsyncResult<T, E>,
+): (...args: [...A, NodeCallback<T>]) => void {
+  return (...args) => {
+    const callback = args.at(-1) as NodeCallback<T>;
+    const params = args.slice(0, -1) as A;
+    Promise.resolve()
+      .then(() => fn(...params))
+      .then(
+        // eslint-disable-next-line unicorn/no-null -- Node callbacks signal success with a null error
+        (result) => (result.ok ? callback(null, result.value) : callback(result.error)),
+        (error: unknown) => callback(error),
+      )
+      .catch((error: unknown) => {
+        process.nextTick(() => {
+          throw error;
+        });
+      });
+  };
+}
@@ -0,0 +1,162 @@
+import { type AsyncResult, type Result, err, fromPromiseWithError } from "./result";
+import { TaggedError } from "./tagged-error";
+
+/**
+ * The error returned by {@link withTimeout} when the deadline passes first.
+ *
+ * @remarks
+ * The package entry points share one copy of this class, so `instanceof`
+ * holds whichever entry point it was imported from.
+ *
+ * @param ms - The timeout that elapsed, in milliseconds
+ */
+// eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+export class TimeoutError extends /* @__PURE__ */ TaggedError("TimeoutError")<{ ms: number; message: string }>() {
+  constructor(ms: number) {
+    super({ ms, message: `Timed out after ${ms}ms` });
+  }
+}
+
+/**
+ * The error returned by signal-aware operations when their AbortSignal aborts.
+ *
+ * @remarks
+ * The signal's `reason` is kept as the error's `cause`.
+ *
+ * @param reason - The reason the signal was aborted with
+ */
+// eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+export class Aborted extends /* @__PURE__ */ TaggedError("Aborted")<{ message: string; cause: unknown }>() {
+  constructor(reason?: unknown) {
+    super({ message: "The operation was aborted", cause: reason });
+  }
+}
+
+/**
+ * Settles with the promise, or with an Aborted Err as soon as the signal aborts.
+ *
+ * @internal
+ */
+const raceSignal = <R>(promise: Promise<R>, signal: AbortSignal): Promise<R | Result<never, Aborted>> => {
+  if (signal.aborted) {
+    // The promise is abandoned, so its rejection must not surface as unhandled
+    promise.catch(() => {});
+    return Promise.resolve(err(new Aborted(signal.reason)));
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      // Remove eagerly: a promise that never settles would otherwise keep the listener attached
+      signal.removeEventListener("abort", onAbort);
+      resolve(err(new Aborted(signal.reason)));
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+};
+
+/**
+ * Gives an async Result a deadline.
+ *
+ * @remarks
+ * Pass a task instead of a Promise to let the work itself stop: the task
+ * receives an AbortSignal that aborts (with the TimeoutError as its reason)
+ * when the deadline passes. `onTimeout` runs at the same moment, which is
+ * useful for logging or for cancelling work that does not take a signal.
+ * The Err is returned right away; the timed-out work is not awaited.
+ *
+ * @example
+ * const user = await withTimeout((signal) => fetchUser(1, { signal }), 5000);
+ * // Result<User, FetchError | TimeoutError>
+ *
+ * @example
+ * const rows = await withTimeout(db.query(sql), 1000, () => db.cancel());
+ *
+ * @param input - A Promise of a Result, or a task producing one from an AbortSignal
+ * @param ms - The deadline, in milliseconds
+ * @param onTimeout - Optional callback run when the deadline passes
+ * @returns An AsyncResult with the input's Result, or a TimeoutError if the deadline passed first
+ */
+export async function withTimeout<T, E>(
+  input: AsyncResult<T, E> | ((signal: AbortSignal) => Result<T, E> | AsyncResult<T, E>),
+  ms: number,
+  onTimeout?: () => void,
+): AsyncResult<T, E | TimeoutError> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timedOut = new Promise<Result<never, TimeoutError>>((resolve) => {
+    timer = setTimeout(() => {
+      const error = new TimeoutError(ms);
+      // Settle before aborting, so the task's own reaction to the signal cannot win the race
+      resolve(err(error));
+      controller.abort(error);
+      onTimeout?.();
+    }, ms);
+  });
+
+  try {
+    const promise = typeof input === "function" ? Promise.resolve(input(controller.signal)) : input;
+    return await Promise.race([promise, timedOut]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * AbortSignal-aware variant of {@link fromPromiseWithError}.
+ * Returns an Aborted Err as soon as the signal aborts, without waiting for the Promise.
+ *
+ * @example
+ * const controller = new AbortController();
+ * const user = await fromPromiseWithSignal((signal) => fetch(url, { signal }), controller.signal);
+ * // Result<Response, unknown>, or Err(Aborted) once controller.abort() is called
+ *
+ * @param input - A Promise, or a task producing one from the signal
+ * @param signal - The AbortSignal to observe
+ * @param errorFn - Optional function to transform caught errors to the expected error type
+ * @returns A Promise that resolves to a Result, with an Aborted error if the signal aborts first
+ */
+export async function fromPromiseWithSignal<T, E = unknown>(
+  input: Promise<T> | ((signal: AbortSignal) => Promise<T>),
+  signal: AbortSignal,
+  errorFn?: (error: unknown) => E,
+): AsyncResult<T, E | Aborted> {
+  if (signal.aborted && typeof input === "function") return err(new Aborted(signal.reason));
+  const promise = typeof input === "function" ? input(signal) : input;
+  return raceSignal(fromPromiseWithError(promise, errorFn), signal);
+}
+
+/**
+ * AbortSignal-aware variant of {@link andThen}.
+ *
+ * @remarks
+ * If the signal has aborted by the time the input settles, the step is not
+ * called and an Aborted Err is returned; if it aborts while the step runs, the
+ * Aborted Err is returned without waiting for the step. The step receives the
+ * signal so it can stop its own work. Chaining several of these with one signal
+ * stops a pipeline at the next step boundary once the signal aborts.
+ *
+ * @example
+ * const controller = new AbortController();
+ * const posts = await andThenWithSignal(
+ *   andThenWithSignal(ok(1), (id, signal) => fetchUser(id, { signal }), controller.signal),
+ *   (user, signal) => fetchPosts(user, { signal }),
+ *   controller.signal,
+ * ); // Result<Post[], FetchError | Aborted>
+ *
+ * @param input - A Result or Promise<Result> to chain from
+ * @param fn - A function invoked when input is Ok and the signal has not aborted; receives the signal
+ * @param signal - The AbortSignal to observe
+ * @returns A Promise that resolves to a Result of the chained operation, or an Aborted error
+ */
+export async function andThenWithSignal<T, E, U, F = E>(
+  input: Result<T, E> | AsyncResult<T, E>,
+  fn: (value: T, signal: AbortSignal) => Result<U, F> | AsyncResult<U, F>,
+  signal: AbortSignal,
+): AsyncResult<U, E | F | Aborted> {
+  const settled = await raceSignal(Promise.resolve(input), signal);
+  if (!settled.ok) return err(settled.error);
+  if (signal.aborted) return err(new Aborted(signal.reason));
+  return raceSignal(Promise.resolve(fn(settled.value, signal)), signal);
+}
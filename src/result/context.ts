@@ -0,0 +1,115 @@
+import { type Result, err } from "./result";
+import { TaggedError } from "./tagged-error";
+
+/**
+ * An error that adds a description of what was being attempted to an underlying error.
+ *
+ * @remarks
+ * The underlying error is kept as the standard `Error.cause`, so chains built
+ * with {@link context} are understood by other tools that follow `cause`, and
+ * {@link errorChain} and {@link formatErrorChain} follow causes set by other
+ * code as well. The cause keeps its type `E`, so nothing is lost by wrapping.
+ *
+ * @example
+ * const error = new ContextError("loading user profile", { status: 404 });
+ * error.message; // "loading user profile"
+ * error.cause; // { status: 404 }
+ *
+ * @param message - What was being attempted when the error occurred
+ * @param cause - The underlying error
+ */
+export class ContextError<E = unknown>
+  // eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+  extends /* @__PURE__ */ TaggedError("ContextError")<{ message: string; cause: unknown }>()
+{
+  declare readonly cause: E;
+
+  constructor(message: string, cause: E) {
+    super({ message, cause });
+  }
+}
+
+/**
+ * Wraps the error of a Result in a {@link ContextError} describing what was being attempted.
+ *
+ * @example
+ * const profile = pipe(
+ *   fetchUser(id),
+ *   (r) => context(r, `fetching user ${id}`),
+ *   (r) => flatMap(r, parseProfile),
+ *   (r) => context(r, "loading user profile"),
+ * );
+ * // Err: loading user profile -> fetching user 1 -> connection refused
+ *
+ * @param result - The Result whose error to wrap
+ * @param message - What was being attempted
+ * @returns The original Result if Ok, otherwise an Err with the error wrapped in a ContextError
+ */
+export function context<T, E>(result: Result<T, E>, message: string): Result<T, ContextError<E>> {
+  return result.ok ? result : err(new ContextError(message, result.error));
+}
+
+/**
+ * Lists an error followed by its causes, following `Error.cause` from the outermost error inwards.
+ *
+ * @example
+ * errorChain(new ContextError("loading user profile", new Error("connection refused")));
+ * // [ContextError("loading user profile"), Error("connection refused")]
+ *
+ * @param error - The outermost error
+ * @returns The error and each of its causes, outermost first
+ */
+export function errorChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  const seen = new Set<unknown>();
+  let current: unknown = error;
+
+  // Stop at cycles, which `cause` does not rule out
+  while (!seen.has(current)) {
+    seen.add(current);
+    chain.push(current);
+    if (!(current instanceof Error) || current.cause === undefined) break;
+    current = current.cause;
+  }
+
+  return chain;
+}
+
+/**
+ * Describes one link of an error chain: the message of Errors, the string
+ * itself for strings, and JSON for anything else.
+ *
+ * @internal
+ */
+const describeError = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "string") return error;
+  try {
+    return JSON.stringify(error) ?? String(error);
+  } catch {
+    return String(error);
+  }
+};
+
+/**
+ * Formats an error and its causes in the style of Rust's anyhow.
+ *
+ * @example
+ * formatErrorChain(
+ *   new ContextError("loading user profile", new ContextError("fetching user 1", new Error("connection refused"))),
+ * );
+ * // loading user profile
+ * //
+ * // Caused by:
+ * //     0: fetching user 1
+ * //     1: connection refused
+ *
+ * @param error - The outermost error
+ * @returns The error's message, followed by a numbered list of its causes
+ */
+export function formatErrorChain(error: unknown): string {
+  const [head, ...causes] = errorChain(error).map((link) => describeError(link));
+  if (causes.length === 0) return head ?? "";
+  if (causes.length === 1) return `${head}\n\nCaused by:\n    ${causes[0]}`;
+  return `${head}\n\nCaused by:\n${causes.map((cause, index) => `    ${index}: ${cause}`).join("\n")}`;
+}
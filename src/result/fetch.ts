@@ -0,0 +1,177 @@
+import { type DecodeError as DecoderError, type Decoder, formatDecodeError } from "@/decoder/decoder";
+
+import { TimeoutError, withTimeout } from "./cancellation";
+import { type AsyncResult, type Result, ok, err, fromPromiseWithError, fromTryWithError } from "./result";
+import { TaggedError } from "./tagged-error";
+
+/**
+ * The error returned by {@link fetchResult} when no response arrives, or its body cannot be read.
+ *
+ * @remarks
+ * The error thrown by `fetch` is kept as the `cause`: a `TypeError` for
+ * connection failures, or an `AbortError` when `init.signal` aborts.
+ *
+ * @param cause - The error thrown by `fetch` or by reading the body
+ */
+// eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+export class NetworkError extends /* @__PURE__ */ TaggedError("NetworkError")<{ message: string; cause: unknown }>() {
+  constructor(cause: unknown) {
+    super({ message: cause instanceof Error ? cause.message : "Network request failed", cause });
+  }
+}
+
+/**
+ * The error returned by {@link fetchResult} for a response with a status outside 200–299.
+ *
+ * @param status - The HTTP status code
+ * @param statusText - The HTTP status message
+ * @param body - The response body as text, or `""` if it could not be read
+ */
+export class HttpError
+  // eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+  extends /* @__PURE__ */ TaggedError("HttpError")<{
+    status: number;
+    statusText: string;
+    body: string;
+    message: string;
+  }>()
+{
+  constructor(status: number, statusText: string, body: string) {
+    super({ status, statusText, body, message: `HTTP ${status}${statusText ? ` ${statusText}` : ""}` });
+  }
+}
+
+/**
+ * The error returned by {@link fetchResult} when the body is not JSON, or does not pass the decoder.
+ *
+ * @remarks
+ * `stage` tells the two apart: `"json"` when the body could not be parsed
+ * (with the `SyntaxError` as the `cause`), `"schema"` when the decoder rejected it.
+ *
+ * @param stage - Whether parsing the JSON or decoding it failed
+ * @param errors - The decode errors, with their paths into the body
+ * @param cause - The error thrown by `JSON.parse`, for the `"json"` stage
+ */
+export class DecodeError
+  // eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+  extends /* @__PURE__ */ TaggedError("DecodeError")<{
+    stage: "json" | "schema";
+    errors: readonly DecoderError[];
+    message: string;
+    cause: unknown;
+  }>()
+{
+  constructor(stage: "json" | "schema", errors: readonly DecoderError[], cause?: unknown) {
+    super({ stage, errors, message: errors.map((error) => formatDecodeError(error)).join("; "), cause });
+  }
+}
+
+/**
+ * The errors {@link fetchResult} can return.
+ *
+ * @remarks
+ * All of them are tagged errors, so `catchTag` and `catchTags` can handle them.
+ */
+export type FetchError = NetworkError | HttpError | DecodeError | TimeoutError;
+
+/**
+ * Options for {@link fetchResult}.
+ *
+ * @param decode - Decodes the parsed JSON body (default: the body is returned as `unknown`)
+ * @param timeout - Milliseconds to wait for the response and its body before aborting with a TimeoutError
+ * @param fetch - The fetch implementation to use (default: the global `fetch`)
+ */
+export type FetchResultOptions<T> = {
+  readonly decode?: Decoder<T>;
+  readonly timeout?: number;
+  readonly fetch?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+};
+
+/**
+ * Parses a response body as JSON, treating an empty body as `undefined`.
+ *
+ * @internal
+ */
+const parseBody = (text: string): Result<unknown, DecodeError> => {
+  const parsed = fromTryWithError((): unknown => (text === "" ? undefined : JSON.parse(text)));
+  if (parsed.ok) return parsed;
+  const { message } = parsed.error;
+  return err(new DecodeError("json", [{ path: [], message: `Invalid JSON: ${message}` }], parsed.error));
+};
+
+/**
+ * Fetches, checks the status, then parses and decodes the JSON body.
+ *
+ * @internal
+ */
+const request = async <T>(
+  input: RequestInfo | URL,
+  init: RequestInit | undefined,
+  options: FetchResultOptions<T>,
+  signal?: AbortSignal,
+): AsyncResult<T, NetworkError | HttpError | DecodeError> => {
+  const { decode, fetch: fetchImpl = fetch } = options;
+  const toNetworkError = (cause: unknown) => new NetworkError(cause);
+
+  const requestInit = signal
+    ? { ...init, signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal }
+    : init;
+  // Called inside the promise chain, so a fetch that throws synchronously still gives a NetworkError
+  const response = await fromPromiseWithError(
+    Promise.resolve().then(() => fetchImpl(input, requestInit)),
+    toNetworkError,
+  );
+  if (!response.ok) return response;
+  const { status, statusText } = response.value;
+
+  if (!response.value.ok) {
+    const body = await fromPromiseWithError(response.value.text());
+    return err(new HttpError(status, statusText, body.ok ? body.value : ""));
+  }
+
+  const text = await fromPromiseWithError(response.value.text(), toNetworkError);
+  if (!text.ok) return text;
+  const body = parseBody(text.value);
+  if (!body.ok) return body;
+  if (!decode) return ok(body.value as T);
+  const decoded = decode(body.value);
+  return decoded.ok ? decoded : err(new DecodeError("schema", [decoded.error]));
+};
+
+/**
+ * Fetches a URL and decodes its JSON body, returning every failure as an Err
+ * instead of throwing.
+ *
+ * @remarks
+ * A response with a status outside 200–299 is an {@link HttpError} carrying
+ * the status and the body text, and a body that is not JSON or fails the
+ * decoder is a {@link DecodeError}. An empty body is decoded as `undefined`,
+ * so `204 No Content` responses work with a decoder that accepts it. With a
+ * `timeout`, the request is aborted when it passes and a TimeoutError is
+ * returned; `init.signal` is still honoured alongside it.
+ *
+ * @example
+ * const user = await fetchResult(`/api/users/${id}`, undefined, { decode: UserDecoder, timeout: 5000 });
+ *
+ * const profile = catchTag(user, "HttpError", (error) => (error.status === 404 ? ok(guestUser) : err(error)));
+ *
+ * @example
+ * // Inject a fetch implementation, e.g. in tests or to add auth headers
+ * const result = await fetchResult("/api/me", { method: "GET" }, { fetch: authenticatedFetch });
+ *
+ * @param input - The resource to fetch, as for `fetch`
+ * @param init - Request options, as for `fetch`
+ * @param options - How to decode the body, the timeout, and the fetch implementation
+ * @returns An AsyncResult with the decoded body, or the {@link FetchError} that occurred
+ * @throws {RangeError} If `timeout` is not a non-negative number
+ */
+export async function fetchResult<T = unknown>(
+  input: RequestInfo | URL,
+  init?: RequestInit,
+  options: FetchResultOptions<T> = {},
+): AsyncResult<T, FetchError> {
+  const { timeout } = options;
+  if (timeout === undefined) return request(input, init, options);
+  if (!(timeout >= 0)) throw new RangeError(`timeout must be a non-negative number, received ${timeout}`);
+  return withTimeout((signal) => request(input, init, options, signal), timeout);
+}
@@ -4,3 +4,10 @@
  * @module result
  */
 export * from "./result";
+export * from "./retry";
+export * from "./cancellation";
+export * from "./tagged-error";
+export * from "./context";
+export * from "./json";
+export * from "./callback";
+export * from "./fetch";
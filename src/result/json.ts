@@ -0,0 +1,210 @@
+import { type Result, err, map, ok } from "./result";
+
+import type { DecodeError, Decoder } from "@/decoder";
+
+/**
+ * The wire format of a Result, as produced by {@link toJSON} and read by {@link fromJSON}.
+ *
+ * @remarks
+ * An Ok whose value is `undefined` loses its `value` key in `JSON.stringify`;
+ * {@link fromJSON} reads a missing key as `undefined`, so `Result<void, E>`
+ * round-trips.
+ *
+ * @param T - The encoded value type
+ * @param E - The encoded error type
+ */
+export type ResultJSON<T = unknown, E = unknown> =
+  | { readonly _tag: "Ok"; readonly value: T }
+  | { readonly _tag: "Err"; readonly error: E };
+
+/**
+ * The wire format of an Error, as produced by {@link errorToJSON} and read by {@link errorFromJSON}.
+ *
+ * @remarks
+ * Own enumerable properties of the Error, such as the `_tag` and properties of
+ * a {@link TaggedError}, are kept alongside the standard ones.
+ */
+export type ErrorJSON = {
+  readonly name: string;
+  readonly message: string;
+  readonly stack?: string;
+  readonly cause?: unknown;
+  readonly [key: string]: unknown;
+};
+
+/**
+ * Functions turning the value and error of a Result into JSON-compatible data.
+ *
+ * @param value - Encodes the Ok value (default: the value as is)
+ * @param error - Encodes the Err error (default: Errors with {@link errorToJSON}, anything else as is)
+ */
+export type ResultEncoders<T, E> = {
+  readonly value?: (value: T) => unknown;
+  readonly error?: (error: E) => unknown;
+};
+
+/**
+ * Decoders validating the value and error of a Result read from JSON.
+ *
+ * @param value - Decodes the Ok value (default: accepts anything as `unknown`)
+ * @param error - Decodes the Err error (default: accepts anything as `unknown`)
+ */
+export type ResultDecoders<T, E> = {
+  readonly value?: Decoder<T>;
+  readonly error?: Decoder<E>;
+};
+
+/**
+ * Encodes an Error and its causes, stopping at cycles.
+ *
+ * @internal
+ */
+const encodeError = (error: Error, seen: Set<unknown>): ErrorJSON => {
+  seen.add(error);
+  // Own properties such as _tag; a TaggedError also has its cause among them, which is encoded separately
+  const properties = Object.fromEntries(Object.entries(error).filter(([key]) => key !== "cause"));
+  const cause = encodeCause(error.cause, seen);
+  return {
+    ...properties,
+    name: error.name,
+    message: error.message,
+    ...(error.stack === undefined ? {} : { stack: error.stack }),
+    ...(cause === undefined ? {} : { cause }),
+  };
+};
+
+/**
+ * Encodes the cause of an Error, dropping causes that point back into the chain.
+ *
+ * @internal
+ */
+const encodeCause = (cause: unknown, seen: Set<unknown>): unknown => {
+  if (!(cause instanceof Error)) return cause;
+  return seen.has(cause) ? undefined : encodeError(cause, seen);
+};
+
+/**
+ * Turns an Error into JSON-compatible data, keeping its name, message, stack
+ * and own properties, and encoding Error causes the same way.
+ *
+ * @remarks
+ * `JSON.stringify` on an Error yields `{}`, as `message` and `stack` are not
+ * enumerable. This is the default error encoder of {@link toJSON}.
+ *
+ * @example
+ * errorToJSON(new ContextError("loading user", new Error("connection refused")));
+ * // { _tag: "ContextError", name: "ContextError", message: "loading user", stack: "...",
+ * //   cause: { name: "Error", message: "connection refused", stack: "..." } }
+ *
+ * @param error - The Error to encode
+ * @returns The Error as plain data
+ */
+export function errorToJSON(error: Error): ErrorJSON {
+  return encodeError(error, new Set());
+}
+
+/**
+ * Decodes data produced by {@link errorToJSON} back into an Error.
+ *
+ * @remarks
+ * The result is a plain `Error` with the original name, message, stack and
+ * properties; the original class is not restored, so match decoded errors on
+ * `_tag` or `name` rather than `instanceof`. Causes that look like encoded
+ * Errors are decoded too; other causes are kept as they are.
+ *
+ * @example
+ * const error = errorFromJSON({ _tag: "NotFound", name: "NotFound", message: "NotFound", id: "42" });
+ * // ok(Error) with error._tag === "NotFound" and error.id === "42"
+ *
+ * @param input - The data to decode
+ * @returns An Ok with the Error, or an Err with a DecodeError if the input has no string `message`
+ */
+export function errorFromJSON(input: unknown): Result<Error, DecodeError> {
+  if (typeof input !== "object" || input === null) {
+    return err({ path: [], message: `expected object, received ${input === null ? "null" : typeof input}` });
+  }
+  const { name, message, stack, cause, ...properties } = input as Record<string, unknown>;
+  if (typeof message !== "string") {
+    return err({ path: ["message"], message: `expected string, received ${typeof message}` });
+  }
+
+  const decodedCause = typeof cause === "object" && cause !== null ? errorFromJSON(cause) : undefined;
+  const error = new Error(
+    message,
+    cause === undefined ? undefined : { cause: decodedCause?.ok ? decodedCause.value : cause },
+  );
+  Object.assign(error, properties);
+  if (typeof name === "string") error.name = name;
+  if (typeof stack === "string") error.stack = stack;
+  return ok(error);
+}
+
+/**
+ * Encodes anything thrown or returned as an error: Errors with {@link errorToJSON}, the rest as is.
+ *
+ * @internal
+ */
+const encodeUnknownError = (error: unknown): unknown => (error instanceof Error ? errorToJSON(error) : error);
+
+/**
+ * Runs an optional decoder on a field of the wire format, prefixing error paths with the field.
+ *
+ * @internal
+ */
+const decodeField = <A>(key: "value" | "error", input: unknown, decoder?: Decoder<A>): Result<A, DecodeError> => {
+  if (!decoder) return ok(input as A);
+  const result = decoder(input);
+  return result.ok ? result : err({ path: [key, ...result.error.path], message: result.error.message });
+};
+
+/**
+ * Turns a Result into its wire format, ready for `JSON.stringify`.
+ *
+ * @example
+ * JSON.stringify(toJSON(ok({ id: 1 }))); // '{"_tag":"Ok","value":{"id":1}}'
+ * JSON.stringify(toJSON(err(new Error("boom")))); // '{"_tag":"Err","error":{"name":"Error","message":"boom",...}}'
+ *
+ * @example
+ * toJSON(ok(new Date(0)), { value: (date) => date.getTime() }); // { _tag: "Ok", value: 0 }
+ *
+ * @param result - The Result to encode
+ * @param encoders - Optional encoders for the value and the error
+ * @returns The Result in wire format
+ */
+export function toJSON<T, E>(result: Result<T, E>, encoders: ResultEncoders<T, E> = {}): ResultJSON {
+  const { value: encodeValue = (value: T): unknown => value, error: encodeErr = encodeUnknownError } = encoders;
+  return result.ok ? { _tag: "Ok", value: encodeValue(result.value) } : { _tag: "Err", error: encodeErr(result.error) };
+}
+
+/**
+ * Reads a Result from its wire format, validating the value and error with the given decoders.
+ *
+ * @remarks
+ * Without decoders the value and error are typed `unknown`. Decoder failures
+ * are reported with their path prefixed by `value` or `error`.
+ *
+ * @example
+ * const user = fromJSON(await response.json(), {
+ *   value: D.object({ id: D.number() }),
+ *   error: errorFromJSON,
+ * }); // Result<Result<{ id: number }, Error>, DecodeError>
+ *
+ * @param json - The parsed wire format
+ * @param decoders - Optional decoders for the value and the error
+ * @returns An Ok with the decoded Result, or an Err with a DecodeError if the input is not a valid Result
+ */
+export function fromJSON<T = unknown, E = unknown>(
+  json: unknown,
+  decoders: ResultDecoders<T, E> = {},
+): Result<Result<T, E>, DecodeError> {
+  if (typeof json !== "object" || json === null) {
+    return err({ path: [], message: `expected object, received ${json === null ? "null" : typeof json}` });
+  }
+  const { _tag: tag, value, error } = json as Record<string, unknown>;
+  if (tag === "Ok") return map(decodeField("value", value, decoders.value), (decoded) => ok<T, E>(decoded));
+  if (tag === "Err") return map(decodeField("error", error, decoders.error), (decoded) => err(decoded));
+  return err({
+    path: ["_tag"],
+    message: `expected "Ok" | "Err", received ${typeof tag === "string" ? JSON.stringify(tag) : typeof tag}`,
+  });
+}
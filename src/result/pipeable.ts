@@ -0,0 +1,473 @@
+import {
+  type Aborted,
+  type TimeoutError,
+  andThenWithSignal as resultAndThenWithSignal,
+  withTimeout as resultWithTimeout,
+} from "./cancellation";
+import { type ContextError, context as resultContext } from "./context";
+import {
+  type AsyncResult,
+  type Result,
+  type TagHandlers,
+  type TagOf,
+  type TraverseOptions,
+  map as resultMap,
+  mapErr as resultMapErr,
+  flatMap as resultFlatMap,
+  filter as resultFilter,
+  unwrap as resultUnwrap,
+  unwrapOr as resultUnwrapOr,
+  unwrapOrElse as resultUnwrapOrElse,
+  match as resultMatch,
+  tap as resultTap,
+  tapErr as resultTapErr,
+  andThen as resultAndThen,
+  mapAsync as resultMapAsync,
+  mapErrAsync as resultMapErrAsync,
+  flatMapAsync as resultFlatMapAsync,
+  tapAsync as resultTapAsync,
+  matchAsync as resultMatchAsync,
+  unwrapOrAsync as resultUnwrapOrAsync,
+  traverseAsync as resultTraverseAsync,
+  catchTag as resultCatchTag,
+  catchTags as resultCatchTags,
+  orElse as resultOrElse,
+  recover as resultRecover,
+  recoverWith as resultRecoverWith,
+} from "./result";
+
+// Already unary, so they compose with `pipe` and `flow` as they are
+export { mapToOption, toPromise, combineAsync } from "./result";
+
+/**
+ * Pipeable (data-last) variant of {@link resultMap | map}.
+ *
+ * @example
+ * const doubled = pipe(ok(21), map((n) => n * 2)); // ok(42)
+ *
+ * @param fn - The function to apply to the contained value
+ * @returns A function that takes a Result and returns a new Result containing the transformed value
+ */
+export const map =
+  <T, U>(fn: (value: T) => U) =>
+  <E>(result: Result<T, E>): Result<U, E> =>
+    resultMap(result, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultMapErr | mapErr}.
+ *
+ * @example
+ * const wrapped = pipe(err("boom"), mapErr((e) => new Error(e))); // err(Error("boom"))
+ *
+ * @param fn - The function to apply to the contained error
+ * @returns A function that takes a Result and returns a new Result containing the transformed error
+ */
+export const mapErr =
+  <E, F>(fn: (error: E) => F) =>
+  <T>(result: Result<T, E>): Result<T, F> =>
+    resultMapErr(result, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultFlatMap | flatMap}.
+ *
+ * @example
+ * const parsed = pipe(
+ *   ok("42"),
+ *   flatMap((s) => (Number.isNaN(Number(s)) ? err("NaN") : ok(Number(s)))),
+ * ); // ok(42)
+ *
+ * @param fn - The function to apply to the contained value, returning a Result
+ * @returns A function that takes a Result and returns the Result produced by `fn`, or the original error
+ *   (the error type widens to the union of both)
+ */
+export const flatMap =
+  <T, U, F>(fn: (value: T) => Result<U, F>) =>
+  <E>(result: Result<T, E>): Result<U, E | F> =>
+    resultFlatMap(result, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultFilter | filter}.
+ *
+ * @example
+ * const checked = pipe(ok(5), filter((n) => n > 10, "too small")); // err("too small")
+ *
+ * @param predicate - A function that determines if the value should be kept
+ * @param error - The error to return if the predicate fails
+ * @returns A function that takes a Result and returns it unchanged or as an Error
+ */
+export const filter =
+  <T, E>(predicate: (value: T) => boolean, error: E) =>
+  (result: Result<T, E>): Result<T, E> =>
+    resultFilter(result, predicate, error);
+
+/**
+ * Pipeable (data-last) variant of {@link resultUnwrap | unwrap}.
+ *
+ * @remarks
+ * Like its data-first counterpart, this is intended for prototyping only.
+ *
+ * @example
+ * const value = pipe(ok(42), unwrap()); // 42
+ *
+ * @param errorMsg - Optional custom error message to use if Result is an error
+ * @returns A function that takes a Result and returns the contained value
+ * @throws If the Result is an error
+ */
+export const unwrap =
+  (errorMsg?: string) =>
+  <T, E>(result: Result<T, E>): T =>
+    resultUnwrap(result, errorMsg);
+
+/**
+ * Pipeable (data-last) variant of {@link resultUnwrapOr | unwrapOr}.
+ *
+ * @example
+ * const value = pipe(err("boom"), unwrapOr(0)); // 0
+ *
+ * @param defaultValue - The value to return if the Result is an error
+ * @returns A function that takes a Result and returns the contained value or the default
+ */
+export const unwrapOr =
+  <T>(defaultValue: T) =>
+  <E>(result: Result<T, E>): T =>
+    resultUnwrapOr(result, defaultValue);
+
+/**
+ * Pipeable (data-last) variant of {@link resultUnwrapOrElse | unwrapOrElse}.
+ *
+ * @example
+ * const value = pipe(err("boom"), unwrapOrElse(() => expensiveComputation()));
+ *
+ * @param defaultFn - A function that returns a default value if the Result is an error
+ * @returns A function that takes a Result and returns the contained value or the computed default
+ */
+export const unwrapOrElse =
+  <T>(defaultFn: () => T) =>
+  <E>(result: Result<T, E>): T =>
+    resultUnwrapOrElse(result, defaultFn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultMatch | match}.
+ *
+ * @example
+ * const message = pipe(
+ *   ok(42),
+ *   match({
+ *     ok: (value) => `Got value: ${value}`,
+ *     err: (error) => `Got error: ${error}`,
+ *   }),
+ * ); // "Got value: 42"
+ *
+ * @param patterns - An object containing handler functions for Ok and Error cases
+ * @returns A function that takes a Result and returns the result of the matching handler
+ */
+export const match =
+  <T, E, R>(patterns: { ok: (value: T) => R; err: (error: E) => R }) =>
+  (result: Result<T, E>): R =>
+    resultMatch(result, patterns);
+
+/**
+ * Pipeable (data-last) variant of {@link resultTap | tap}.
+ *
+ * @example
+ * const logged = pipe(ok(42), tap((n) => console.log(n))); // logs 42, returns ok(42)
+ *
+ * @param fn - The function to execute with the value if Ok
+ * @returns A function that takes a Result and returns it unchanged
+ */
+export const tap =
+  <T>(fn: (value: T) => void) =>
+  <E>(result: Result<T, E>): Result<T, E> =>
+    resultTap(result, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultTapErr | tapErr}.
+ *
+ * @example
+ * const logged = pipe(err("boom"), tapErr((e) => console.error(e))); // logs "boom", returns err("boom")
+ *
+ * @param fn - The function to execute with the error if Error
+ * @returns A function that takes a Result and returns it unchanged
+ */
+export const tapErr =
+  <E>(fn: (error: E) => void) =>
+  <T>(result: Result<T, E>): Result<T, E> =>
+    resultTapErr(result, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultOrElse | orElse}.
+ *
+ * @example
+ * const config = pipe(readLocalConfig(), orElse(() => readRemoteConfig()));
+ *
+ * @param fn - The function to call with the error, returning a fallback Result
+ * @returns A function that takes a Result and returns it if ok, otherwise the fallback Result
+ */
+export const orElse =
+  <T, E, F>(fn: (error: E) => Result<T, F>) =>
+  (result: Result<T, E>): Result<T, F> =>
+    resultOrElse(result, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultRecover | recover}.
+ *
+ * @example
+ * const count = pipe(parseCount(input), recover(() => 0)); // Result<number, never>
+ *
+ * @param fn - The function to call with the error, returning a fallback value
+ * @returns A function that takes a Result and returns an Ok with the value or the recovered value
+ */
+export const recover =
+  <T, E>(fn: (error: E) => T) =>
+  (result: Result<T, E>): Result<T, never> =>
+    resultRecover(result, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultRecoverWith | recoverWith}.
+ *
+ * @example
+ * const user = pipe(
+ *   findUser(id),
+ *   recoverWith((e) => (e.type === "NOT_FOUND" ? ok(GUEST) : err(e.type))),
+ * );
+ *
+ * @param fn - The function to call with the error, returning a fallback Result
+ * @returns A function that takes a Result and returns it if ok, otherwise the fallback Result
+ */
+export const recoverWith =
+  <E, U, F>(fn: (error: E) => Result<U, F>) =>
+  <T>(result: Result<T, E>): Result<T | U, F> =>
+    resultRecoverWith(result, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultAndThen | andThen}.
+ *
+ * @example
+ * const user = await pipe(
+ *   ok(1),
+ *   andThen(fetchUser), // Promise<Result<User, string>>
+ *   andThen(fetchPosts), // Promise<Result<Post[], string>>
+ * );
+ *
+ * @param fn - A function invoked when input is Ok; may be sync or async but returns a Result
+ * @returns A function that takes a Result or Promise<Result> and returns a Promise of the chained Result
+ */
+export const andThen =
+  <T, U, F>(fn: (value: T) => Result<U, F> | Promise<Result<U, F>>) =>
+  <E>(input: Result<T, E> | Promise<Result<T, E>>): Promise<Result<U, E | F>> =>
+    resultAndThen(input, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultMapAsync | mapAsync}.
+ *
+ * @example
+ * const name = await pipe(fetchUser(1), mapAsync((user) => user.name)); // Ok("Alice")
+ *
+ * @param fn - The function to apply to the contained value; may return a Promise
+ * @returns A function that takes a Result or AsyncResult and returns an AsyncResult containing the transformed value
+ */
+export const mapAsync =
+  <T, U>(fn: (value: T) => U | Promise<U>) =>
+  <E>(input: Result<T, E> | AsyncResult<T, E>): AsyncResult<U, E> =>
+    resultMapAsync(input, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultMapErrAsync | mapErrAsync}.
+ *
+ * @example
+ * const result = await pipe(fetchUser(1), mapErrAsync((message) => new Error(message)));
+ *
+ * @param fn - The function to apply to the contained error; may return a Promise
+ * @returns A function that takes a Result or AsyncResult and returns an AsyncResult containing the transformed error
+ */
+export const mapErrAsync =
+  <E, F>(fn: (error: E) => F | Promise<F>) =>
+  <T>(input: Result<T, E> | AsyncResult<T, E>): AsyncResult<T, F> =>
+    resultMapErrAsync(input, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultFlatMapAsync | flatMapAsync}.
+ *
+ * @example
+ * const posts = await pipe(ok(1), flatMapAsync(fetchUser), flatMapAsync(fetchPosts));
+ *
+ * @param fn - A function invoked when input is Ok; may be sync or async but returns a Result
+ * @returns A function that takes a Result or AsyncResult and returns an AsyncResult of the chained operation
+ */
+export const flatMapAsync =
+  <T, U, F>(fn: (value: T) => Result<U, F> | AsyncResult<U, F>) =>
+  <E>(input: Result<T, E> | AsyncResult<T, E>): AsyncResult<U, E | F> =>
+    resultFlatMapAsync(input, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultTapAsync | tapAsync}.
+ *
+ * @example
+ * const user = await pipe(fetchUser(1), tapAsync((user) => audit.log("viewed", user.id)));
+ *
+ * @param fn - The function to execute with the value if Ok; may return a Promise
+ * @returns A function that takes a Result or AsyncResult and returns an AsyncResult with the original Result
+ */
+export const tapAsync =
+  <T>(fn: (value: T) => void | Promise<void>) =>
+  <E>(input: Result<T, E> | AsyncResult<T, E>): AsyncResult<T, E> =>
+    resultTapAsync(input, fn);
+
+/**
+ * Pipeable (data-last) variant of {@link resultMatchAsync | matchAsync}.
+ *
+ * @example
+ * const message = await pipe(
+ *   fetchUser(1),
+ *   matchAsync({
+ *     ok: (user) => `Hello, ${user.name}`,
+ *     err: (error) => `Failed: ${error}`,
+ *   }),
+ * );
+ *
+ * @param patterns - An object containing handler functions for Ok and Error cases; either may return a Promise
+ * @returns A function that takes a Result or AsyncResult and returns a Promise of the matching handler's value
+ */
+export const matchAsync =
+  <T, E, R>(patterns: { ok: (value: T) => R | Promise<R>; err: (error: E) => R | Promise<R> }) =>
+  (input: Result<T, E> | AsyncResult<T, E>): Promise<R> =>
+    resultMatchAsync(input, patterns);
+
+/**
+ * Pipeable (data-last) variant of {@link resultUnwrapOrAsync | unwrapOrAsync}.
+ *
+ * @example
+ * const posts = await pipe(ok(1), flatMapAsync(fetchUser), flatMapAsync(fetchPosts), unwrapOrAsync([]));
+ *
+ * @param defaultValue - The value to return if the Result is an error
+ * @returns A function that takes a Result or AsyncResult and returns a Promise of the contained value or the default
+ */
+export const unwrapOrAsync =
+  <T>(defaultValue: T) =>
+  <E>(input: Result<T, E> | AsyncResult<T, E>): Promise<T> =>
+    resultUnwrapOrAsync(input, defaultValue);
+
+/**
+ * Pipeable (data-last) variant of {@link resultTraverseAsync | traverseAsync}.
+ *
+ * @example
+ * const users = await pipe(
+ *   ids,
+ *   traverseAsync((id: number) => fetchUser(id), { concurrency: 5 }),
+ * ); // Result<User[], FetchError>
+ *
+ * @param fn - The function to run for each item; receives the item, its index and an AbortSignal
+ * @param options - The concurrency limit and error mode
+ * @returns A function that takes the items and returns an AsyncResult of all values in input order
+ */
+export function traverseAsync<A, T, E>(
+  fn: (item: A, index: number, signal: AbortSignal) => Result<T, E> | AsyncResult<T, E>,
+  options?: TraverseOptions & { readonly mode?: "fail-fast" },
+): (items: readonly A[]) => AsyncResult<T[], E>;
+export function traverseAsync<A, T, E>(
+  fn: (item: A, index: number, signal: AbortSignal) => Result<T, E> | AsyncResult<T, E>,
+  options: TraverseOptions & { readonly mode: "collect-all" },
+): (items: readonly A[]) => AsyncResult<T[], E[]>;
+export function traverseAsync<A, T, E>(
+  fn: (item: A, index: number, signal: AbortSignal) => Result<T, E> | AsyncResult<T, E>,
+  options?: TraverseOptions,
+): (items: readonly A[]) => AsyncResult<T[], E | E[]> {
+  return (items) => resultTraverseAsync(items, fn, options);
+}
+
+/**
+ * Pipeable (data-last) variant of {@link resultWithTimeout | withTimeout}.
+ *
+ * @example
+ * const user = await pipe((signal: AbortSignal) => fetchUser(1, { signal }), withTimeout(5000));
+ *
+ * @param ms - The deadline, in milliseconds
+ * @param onTimeout - Optional callback run when the deadline passes
+ * @returns A function that takes a Promise of a Result (or a task producing one) and returns an AsyncResult with a deadline
+ */
+export const withTimeout =
+  (ms: number, onTimeout?: () => void) =>
+  <T, E>(
+    input: AsyncResult<T, E> | ((signal: AbortSignal) => Result<T, E> | AsyncResult<T, E>),
+  ): AsyncResult<T, E | TimeoutError> =>
+    resultWithTimeout(input, ms, onTimeout);
+
+/**
+ * Pipeable (data-last) variant of {@link resultAndThenWithSignal | andThenWithSignal}.
+ *
+ * @example
+ * const controller = new AbortController();
+ * const posts = await pipe(
+ *   ok(1),
+ *   andThenWithSignal((id, signal) => fetchUser(id, { signal }), controller.signal),
+ *   andThenWithSignal((user, signal) => fetchPosts(user, { signal }), controller.signal),
+ * );
+ *
+ * @param fn - A function invoked when input is Ok and the signal has not aborted; receives the signal
+ * @param signal - The AbortSignal to observe
+ * @returns A function that takes a Result or AsyncResult and returns an AsyncResult of the chained operation
+ */
+export const andThenWithSignal =
+  <T, U, F>(fn: (value: T, signal: AbortSignal) => Result<U, F> | AsyncResult<U, F>, signal: AbortSignal) =>
+  <E>(input: Result<T, E> | AsyncResult<T, E>): AsyncResult<U, E | F | Aborted> =>
+    resultAndThenWithSignal(input, fn, signal);
+
+/**
+ * Pipeable (data-last) variant of {@link resultCatchTag | catchTag}.
+ *
+ * @example
+ * const user = pipe(
+ *   findUser(id), // Result<User, NotFound | Invalid>
+ *   catchTag("NotFound", (error) => ok(guestUser(error.id))),
+ * ); // Result<User, Invalid>
+ *
+ * @param tag - The `_tag` of the errors to handle
+ * @param handler - Produces a new Result from the matching error
+ * @returns A function that takes a Result and returns it with the tagged errors handled
+ */
+export const catchTag =
+  <E, K extends TagOf<E>, U = never, F = never>(
+    tag: K,
+    handler: (error: Extract<E, { readonly _tag: K }>) => Result<U, F>,
+  ) =>
+  <T>(result: Result<T, E>): Result<T | U, Exclude<E, { readonly _tag: K }> | F> =>
+    resultCatchTag(result, tag, handler);
+
+/**
+ * Pipeable (data-last) variant of {@link resultCatchTags | catchTags}.
+ *
+ * @example
+ * const user = pipe(
+ *   findUser(id),
+ *   catchTags({
+ *     NotFound: (error) => ok(guestUser(error.id)),
+ *     Invalid: (error) => err(new BadRequest({ message: error.reason })),
+ *   }),
+ * ); // Result<User, BadRequest>
+ *
+ * @param handlers - A record of handlers keyed by the `_tag` they handle
+ * @returns A function that takes a Result and returns it with the tagged errors handled
+ */
+export const catchTags =
+  <E, H extends TagHandlers<E>>(handlers: H) =>
+  <T>(result: Result<T, E>): ReturnType<typeof resultCatchTags<T, E, H>> =>
+    resultCatchTags(result, handlers);
+
+/**
+ * Pipeable (data-last) variant of {@link resultContext | context}.
+ *
+ * @example
+ * const profile = pipe(
+ *   fetchUser(id),
+ *   context(`fetching user ${id}`),
+ *   flatMap(parseProfile),
+ *   context("loading user profile"),
+ * );
+ *
+ * @param message - What was being attempted
+ * @returns A function that takes a Result and returns it with its error wrapped in a ContextError
+ */
+export const context =
+  (message: string) =>
+  <T, E>(result: Result<T, E>): Result<T, ContextError<E>> =>
+    resultContext(result, message);
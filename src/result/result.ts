@@ -1,11 +1,48 @@
-import { none, some, type Option } from "@/option";
+import { none, reviveOption, some, type Option } from "@/option";
+import { type Eq, type Ord, deepEqual, naturalOrder } from "@/utils";
 
 /**
  * Symbol used to identify Result objects.
  *
+ * @remarks
+ * Registered with `Symbol.for`, so Results created by another copy of the
+ * library (e.g. a second bundle) carry the same brand.
+ *
  * @internal
  */
-export const RESULT_BRAND = Symbol("RESULT_BRAND");
+export const RESULT_BRAND: unique symbol = Symbol.for("@railway-ts/core/RESULT_BRAND");
+
+/**
+ * The Ok variant of a Result.
+ *
+ * @remarks
+ * Iterating an Ok returns its value without yielding, which is what lets
+ * `yield*` unwrap it inside {@link gen}.
+ *
+ * @param T - The type of the contained value
+ */
+export type Ok<T> = {
+  readonly ok: true;
+  readonly value: T;
+  readonly [RESULT_BRAND]: "ok";
+  [Symbol.iterator](): Generator<never, T, unknown>;
+};
+
+/**
+ * The Error variant of a Result.
+ *
+ * @remarks
+ * Iterating an Err yields the Err itself, which is what lets {@link gen}
+ * short-circuit on the first failure.
+ *
+ * @param E - The type of the contained error
+ */
+export type Err<E> = {
+  readonly ok: false;
+  readonly error: E;
+  readonly [RESULT_BRAND]: "error";
+  [Symbol.iterator](): Generator<Err<E>, never, unknown>;
+};
 
 /**
  * Represents a Result type.
@@ -18,17 +55,68 @@ export const RESULT_BRAND = Symbol("RESULT_BRAND");
  * @param E - The type of the error contained in the Error variant
  * @returns A Result containing a value or an error
  */
-export type Result<T, E> =
-  | {
-      readonly ok: true;
-      readonly value: T;
-      readonly [RESULT_BRAND]: "ok";
-    }
-  | {
-      readonly ok: false;
-      readonly error: E;
-      readonly [RESULT_BRAND]: "error";
-    };
+export type Result<T, E> = Ok<T> | Err<E>;
+
+/**
+ * Extracts the value type of a Result (or union of Results).
+ *
+ * @internal
+ */
+type OkValue<R> = R extends Ok<infer T> ? T : never;
+
+/**
+ * Extracts the error type of a Result (or union of Results).
+ *
+ * @internal
+ */
+type ErrValue<R> = R extends Err<infer E> ? E : never;
+
+/**
+ * Shape every Result satisfies, for use as a generic constraint.
+ * Unlike `Result<unknown, unknown>`, it does not make inline `ok(...)` calls
+ * infer `unknown` as their error type from context.
+ *
+ * @internal
+ */
+type AnyResult = Ok<unknown> | Pick<Err<unknown>, "ok" | typeof RESULT_BRAND>;
+
+/**
+ * Extracts the `_tag` literals of the tagged members of an error union.
+ *
+ * @example
+ * type Tags = TagOf<NotFound | Invalid | string>; // "NotFound" | "Invalid"
+ *
+ * @param E - The error union
+ */
+export type TagOf<E> = E extends { readonly _tag: infer Tag extends string } ? Tag : never;
+
+/**
+ * Handlers for some of the tags of an error union, as accepted by {@link catchTags}.
+ *
+ * @param E - The error union
+ */
+export type TagHandlers<E> = {
+  readonly [K in TagOf<E>]?: (error: Extract<E, { readonly _tag: K }>) => AnyResult;
+};
+
+/**
+ * The union of the Results returned by a record of handlers.
+ *
+ * @internal
+ */
+type HandlerResult<H> = { [K in keyof H]-?: H[K] extends (...args: never[]) => infer R ? R : never }[keyof H];
+
+/**
+ * Shared iterator for both variants, so every Result can be unwrapped with `yield*`.
+ *
+ * @internal
+ */
+function* iterate<T, E>(this: Result<T, E>): Generator<Err<E>, T, unknown> {
+  if (this.ok) return this.value;
+  yield this;
+  // gen() never resumes a generator after it yields an Err
+  return undefined as never;
+}
 
 /**
  * Creates a Result containing a value.
@@ -44,6 +132,7 @@ export function ok<T, E = never>(value: T): Result<T, E> {
     ok: true,
     value,
     [RESULT_BRAND]: "ok",
+    [Symbol.iterator]: iterate as Ok<T>[typeof Symbol.iterator],
   };
 }
 
@@ -57,7 +146,7 @@ export function ok<T, E = never>(value: T): Result<T, E> {
  * @returns A Result containing the error
  */
 export function err<E>(error: E): Result<never, E> {
-  return { ok: false, error, [RESULT_BRAND]: "error" };
+  return { ok: false, error, [RESULT_BRAND]: "error", [Symbol.iterator]: iterate };
 }
 
 /**
@@ -73,13 +162,7 @@ export function err<E>(error: E): Result<never, E> {
  * @param result - The result to check
  * @returns A type predicate indicating if the result is an Ok variant
  */
-export function isOk<T, E>(
-  result: Result<T, E>,
-): result is {
-  readonly ok: true;
-  readonly value: T;
-  readonly [RESULT_BRAND]: "ok";
-} {
+export function isOk<T, E>(result: Result<T, E>): result is Ok<T> {
   return result.ok;
 }
 
@@ -96,16 +179,73 @@ export function isOk<T, E>(
  * @param result - The result to check
  * @returns A type predicate indicating if the result is an Error variant
  */
-export function isErr<T, E>(
-  result: Result<T, E>,
-): result is {
-  readonly ok: false;
-  readonly error: E;
-  readonly [RESULT_BRAND]: "error";
-} {
+export function isErr<T, E>(result: Result<T, E>): result is Err<E> {
   return !result.ok;
 }
 
+/**
+ * Type guard that checks if an unknown value is a Result.
+ *
+ * @remarks
+ * Only values created by `ok` and `err` (from any copy of the library) are
+ * recognized. Plain `{ ok, value }` objects, such as a Result that went through
+ * `JSON.stringify` or `structuredClone`, are not; use {@link reviveResult} for those.
+ *
+ * @example
+ * if (isResult(message.data)) {
+ *   console.log(message.data.ok);
+ * }
+ *
+ * @param value - The value to check
+ * @returns A type predicate indicating if the value is a Result
+ */
+export function isResult(value: unknown): value is Result<unknown, unknown> {
+  return typeof value === "object" && value !== null && RESULT_BRAND in value;
+}
+
+/**
+ * Rebuilds a Result from its plain `{ ok: true, value }` or `{ ok: false, error }`
+ * shape, as left behind by `JSON.stringify`, `structuredClone` or `postMessage`.
+ *
+ * @remarks
+ * Objects with any other keys are not treated as Results. The contained value
+ * or error is not validated; `T` and `E` are assumed. Note that `JSON.stringify`
+ * drops `undefined`, so `ok(undefined)` does not survive a JSON round trip.
+ *
+ * @example
+ * const cloned = structuredClone(ok(42)); // { ok: true, value: 42 }, no longer a Result
+ * const result = reviveResult<number, string>(cloned); // ok(42)
+ *
+ * @param value - The value to rebuild
+ * @returns The rebuilt Result, the value itself if it already is one, or undefined if it has another shape
+ */
+export function reviveResult<T = unknown, E = unknown>(value: unknown): Result<T, E> | undefined {
+  if (isResult(value)) return value as Result<T, E>;
+  if (typeof value !== "object" || value === null) return undefined;
+
+  const shape = value as { ok?: unknown; value?: unknown; error?: unknown };
+  const keys = Object.keys(value).toSorted().join(",");
+  if (keys === "ok,value" && shape.ok === true) return ok(shape.value as T);
+  if (keys === "error,ok" && shape.ok === false) return err(shape.error as E);
+  return undefined;
+}
+
+/**
+ * A `JSON.parse` reviver that rebuilds Results and Options from their plain shapes,
+ * at any depth. See {@link reviveResult} and `reviveOption`.
+ *
+ * @example
+ * const json = JSON.stringify({ user: ok({ name: "Alice" }), nickname: none() });
+ * const data = JSON.parse(json, reviver); // { user: ok({ name: "Alice" }), nickname: none() }
+ *
+ * @param _key - The key of the value being parsed (unused)
+ * @param value - The parsed value
+ * @returns The rebuilt Result or Option, or the value unchanged
+ */
+export function reviver(_key: string, value: unknown): unknown {
+  return reviveResult(value) ?? reviveOption(value) ?? value;
+}
+
 /**
  * Maps the value inside a Result using a transformation function.
  *
@@ -138,16 +278,28 @@ export function mapErr<T, E, F>(result: Result<T, E>, fn: (error: E) => F): Resu
 
 /**
  * Maps the value inside a Result using a transformation function that returns a Result.
+ * The error type of the returned Result is the union of the input and continuation error types,
+ * so steps with different (e.g. tagged) error types can be chained without casting.
  *
  * @example
  * const result: Result<number, string> = ok(123);
  * const transformed: Result<string, string> = flatMap(result, (value) => ok(value.toString()));
  *
+ * @example
+ * // Heterogeneous error types accumulate into a union
+ * type ParseError = { type: "PARSE"; input: string };
+ * type DbError = { type: "DB"; message: string };
+ *
+ * declare const parseId: (input: string) => Result<number, ParseError>;
+ * declare const loadUser: (id: number) => Result<User, DbError>;
+ *
+ * const user: Result<User, ParseError | DbError> = flatMap(parseId("42"), loadUser);
+ *
  * @param result - The Result to transform
  * @param fn - The function to apply to the contained value, returning a Result
  * @returns The Result returned by the transformation function, or the original error if the input was an error
  */
-export function flatMap<T, E, U>(result: Result<T, E>, fn: (value: T) => Result<U, E>): Result<U, E> {
+export function flatMap<T, E, U, F = E>(result: Result<T, E>, fn: (value: T) => Result<U, F>): Result<U, E | F> {
   return result.ok ? fn(result.value) : result;
 }
 
@@ -430,6 +582,66 @@ export function combineAll<T, E>(results: readonly Result<T, E>[]): Result<T[],
   return errors.length > 0 ? err(errors) : ok(values);
 }
 
+/**
+ * Combines a record of Results into a single Result containing a record of values.
+ * Returns the first Error encountered (in key order) if any Result is an Error.
+ * If an empty record is provided, returns `ok({})`.
+ *
+ * @example
+ * const form = combineObject({
+ *   name: validateName(input.name), // Result<string, NameError>
+ *   age: validateAge(input.age), // Result<number, AgeError>
+ * }); // Result<{ name: string; age: number }, NameError | AgeError>
+ *
+ * @param results - A record of Results to combine
+ * @returns A Result containing a record of all values if all inputs are Ok, or the first Error if any input is an Error
+ */
+export function combineObject<R extends Record<string, AnyResult>>(
+  results: R,
+): Result<{ [K in keyof R]: OkValue<R[K]> }, ErrValue<R[keyof R]>> {
+  const entries: [string, unknown][] = [];
+
+  for (const [key, result] of Object.entries(results as Record<string, Result<unknown, unknown>>)) {
+    if (!result.ok) return result as Err<ErrValue<R[keyof R]>>;
+    entries.push([key, result.value]);
+  }
+
+  return ok(Object.fromEntries(entries) as { [K in keyof R]: OkValue<R[K]> });
+}
+
+/**
+ * Combines a record of Results into a single Result containing a record of values.
+ * Unlike combineObject, this collects every error, keyed by the field that produced it.
+ *
+ * @example
+ * const form = combineAllObject({
+ *   name: err("required"),
+ *   age: ok(42),
+ *   email: err("invalid"),
+ * }); // err({ name: "required", email: "invalid" })
+ *
+ * @param results - A record of Results to combine
+ * @returns A Result containing a record of all values if all inputs are Ok, or a partial record of errors keyed by field
+ */
+export function combineAllObject<R extends Record<string, AnyResult>>(
+  results: R,
+): Result<{ [K in keyof R]: OkValue<R[K]> }, Partial<{ [K in keyof R]: ErrValue<R[K]> }>> {
+  const errors: [string, unknown][] = [];
+  const values: [string, unknown][] = [];
+
+  for (const [key, result] of Object.entries(results as Record<string, Result<unknown, unknown>>)) {
+    if (result.ok) {
+      values.push([key, result.value]);
+    } else {
+      errors.push([key, result.error]);
+    }
+  }
+
+  return errors.length > 0
+    ? err(Object.fromEntries(errors) as Partial<{ [K in keyof R]: ErrValue<R[K]> }>)
+    : ok(Object.fromEntries(values) as { [K in keyof R]: OkValue<R[K]> });
+}
+
 /**
  * Pattern matches on a Result to handle both Ok and Error cases.
  *
@@ -507,6 +719,165 @@ export function tapErr<T, E>(result: Result<T, E>, fn: (error: E) => void): Resu
   return result;
 }
 
+/**
+ * Recovers from an Error by calling a function that returns a fallback Result.
+ * The fallback may succeed or fail with a new error type.
+ *
+ * @example
+ * const config = orElse(readLocalConfig(), (e) => readRemoteConfig()); // Result<Config, RemoteError>
+ *
+ * @param result - The Result to recover
+ * @param fn - The function to call with the error, returning a fallback Result
+ * @returns The original Result if ok, otherwise the fallback Result
+ */
+export function orElse<T, E, F>(result: Result<T, E>, fn: (error: E) => Result<T, F>): Result<T, F> {
+  return result.ok ? result : fn(result.error);
+}
+
+/**
+ * Recovers from an Error by computing a value from it, so the Result is always Ok.
+ * Unlike unwrapOrElse, this stays on the railway and returns a Result.
+ *
+ * @example
+ * const count = recover(parseCount(input), () => 0); // Result<number, never>
+ *
+ * @param result - The Result to recover
+ * @param fn - The function to call with the error, returning a fallback value
+ * @returns An Ok with the original value, or the value computed from the error
+ */
+export function recover<T, E>(result: Result<T, E>, fn: (error: E) => T): Result<T, never> {
+  return result.ok ? result : ok(fn(result.error));
+}
+
+/**
+ * Recovers from an Error with a fallback Result that may carry a different value type.
+ * The error type is replaced by the fallback's.
+ *
+ * @example
+ * const user = recoverWith(findUser(id), (e) => (e.type === "NOT_FOUND" ? ok(GUEST) : err(e.type)));
+ * // Result<User | Guest, "DB_ERROR" | ...>
+ *
+ * @param result - The Result to recover
+ * @param fn - The function to call with the error, returning a fallback Result
+ * @returns The original Result if ok, otherwise the fallback Result
+ */
+export function recoverWith<T, E, U, F>(result: Result<T, E>, fn: (error: E) => Result<U, F>): Result<T | U, F> {
+  return result.ok ? result : fn(result.error);
+}
+
+/**
+ * Reads the `_tag` of an error, if it has one.
+ *
+ * @internal
+ */
+const tagOf = (error: unknown): unknown =>
+  typeof error === "object" && error !== null && "_tag" in error ? error._tag : undefined;
+
+/**
+ * Recovers from the errors carrying one `_tag`, leaving every other error untouched.
+ * The handled variant is removed from the error type.
+ *
+ * @example
+ * class NotFound extends TaggedError("NotFound")<{ id: string }>() {}
+ * class Invalid extends TaggedError("Invalid")<{ reason: string }>() {}
+ *
+ * const user = catchTag(findUser(id), "NotFound", (error) => ok(guestUser(error.id)));
+ * // Result<User, Invalid>
+ *
+ * @param result - The Result to recover
+ * @param tag - The `_tag` of the errors to handle
+ * @param handler - Produces a new Result from the matching error
+ * @returns The handler's Result for matching errors, otherwise the original Result
+ */
+export function catchTag<T, E, K extends TagOf<E>, U = never, F = never>(
+  result: Result<T, E>,
+  tag: K,
+  handler: (error: Extract<E, { readonly _tag: K }>) => Result<U, F>,
+): Result<T | U, Exclude<E, { readonly _tag: K }> | F> {
+  if (result.ok || tagOf(result.error) !== tag) {
+    return result as Result<T, Exclude<E, { readonly _tag: K }>>;
+  }
+  return handler(result.error as Extract<E, { readonly _tag: K }>);
+}
+
+/**
+ * Recovers from several tagged errors at once, with one handler per `_tag`.
+ * Handled variants are removed from the error type; any errors the handlers
+ * return are added to it.
+ *
+ * @example
+ * const response = catchTags(findUser(id), {
+ *   NotFound: (error) => ok(guestUser(error.id)),
+ *   Invalid: (error) => err(new BadRequest({ message: error.reason })),
+ * }); // Result<User, BadRequest>
+ *
+ * @param result - The Result to recover
+ * @param handlers - A record of handlers keyed by the `_tag` they handle
+ * @returns The matching handler's Result, or the original Result if no handler matches
+ */
+export function catchTags<T, E, H extends TagHandlers<E>>(
+  result: Result<T, E>,
+  handlers: H,
+): Result<T | OkValue<HandlerResult<H>>, Exclude<E, { readonly _tag: keyof H }> | ErrValue<HandlerResult<H>>> {
+  if (result.ok) return result;
+  const handler = new Map<unknown, unknown>(Object.entries(handlers)).get(tagOf(result.error)) as
+    | ((error: E) => Result<OkValue<HandlerResult<H>>, ErrValue<HandlerResult<H>>>)
+    | undefined;
+  return handler ? handler(result.error) : (result as Err<Exclude<E, { readonly _tag: keyof H }>>);
+}
+
+/**
+ * Checks whether two Results are equal: both Ok with equal values, or both Err with equal errors.
+ *
+ * @example
+ * equals(ok({ id: 1 }), ok({ id: 1 })); // true (deep equality by default)
+ * equals(err(new Error("boom")), err(new Error("boom"))); // true
+ * equals(ok(1), err(1)); // false
+ *
+ * @example
+ * equals(a, b, { value: (x, y) => x.id === y.id }); // compare users by id, errors deeply
+ *
+ * @param a - The first Result
+ * @param b - The second Result
+ * @param eq - Compares the values and the errors (default: {@link deepEqual} for both)
+ * @returns Whether the Results are equal
+ */
+export function equals<T, E>(
+  a: Result<T, E>,
+  b: Result<T, E>,
+  eq: { readonly value?: Eq<T>; readonly error?: Eq<E> } = {},
+): boolean {
+  const { value: eqValue = deepEqual, error: eqError = deepEqual } = eq;
+  if (a.ok && b.ok) return eqValue(a.value, b.value);
+  if (!a.ok && !b.ok) return eqError(a.error, b.error);
+  return false;
+}
+
+/**
+ * Orders two Results: Err before Ok, then Oks by their values and Errs by their errors.
+ * Can be passed directly to `Array.prototype.sort` for primitive values and errors.
+ *
+ * @example
+ * [ok(2), err("b"), ok(1), err("a")].sort(compare); // [err("a"), err("b"), ok(1), ok(2)]
+ * results.sort((a, b) => compare(a, b, { value: (x, y) => x.createdAt - y.createdAt, error: () => 0 }));
+ *
+ * @param a - The first Result
+ * @param b - The second Result
+ * @param ord - Orders the values and the errors (default: {@link naturalOrder} for both)
+ * @returns A negative number if `a` comes first, a positive number if `b` does, 0 if they are equal
+ * @throws {TypeError} If two Oks or two Errs hold values without a natural order and no `ord` is given for them
+ */
+export function compare<T, E>(
+  a: Result<T, E>,
+  b: Result<T, E>,
+  ord: { readonly value?: Ord<T>; readonly error?: Ord<E> } = {},
+): number {
+  const { value: ordValue = naturalOrder, error: ordError = naturalOrder } = ord;
+  if (a.ok && b.ok) return ordValue(a.value, b.value);
+  if (!a.ok && !b.ok) return ordError(a.error, b.error);
+  return a.ok ? 1 : -1;
+}
+
 /**
  * Converts a Result to an Option.
  * If the Result is Ok, returns a Some variant with the value.
@@ -650,7 +1021,8 @@ export function toPromise<T, E>(result: Result<T, E>): Promise<T> {
  * a `Result` or a `Promise<Result>` and a step function that may be synchronous
  * or asynchronous, but must return a `Result` (or `Promise<Result>`). If the
  * input is an Ok, the step is invoked and awaited; if the input is an Err, the
- * same error is returned and the step is not called.
+ * same error is returned and the step is not called. As with {@link flatMap},
+ * the resulting error type is the union of the input and step error types.
  *
  * This design keeps your core pipeline synchronous in structure while enabling
  * async effects at the boundaries (e.g., database, HTTP) without nested flows.
@@ -671,21 +1043,348 @@ export function toPromise<T, E>(result: Result<T, E>): Promise<T> {
  * @param fn - A function invoked when input is Ok; may be sync or async but returns a Result
  * @returns A Promise that resolves to a Result of the chained operation
  */
-export function andThen<T, E, U>(
+export function andThen<T, E, U, F = E>(
   input: Result<T, E>,
-  fn: (value: T) => Result<U, E> | Promise<Result<U, E>>,
-): Promise<Result<U, E>>;
-export function andThen<T, E, U>(
+  fn: (value: T) => Result<U, F> | Promise<Result<U, F>>,
+): Promise<Result<U, E | F>>;
+export function andThen<T, E, U, F = E>(
   input: Promise<Result<T, E>>,
-  fn: (value: T) => Result<U, E> | Promise<Result<U, E>>,
-): Promise<Result<U, E>>;
-export async function andThen<T, E, U>(
+  fn: (value: T) => Result<U, F> | Promise<Result<U, F>>,
+): Promise<Result<U, E | F>>;
+export function andThen<T, E, U, F = E>(
+  input: Result<T, E> | Promise<Result<T, E>>,
+  fn: (value: T) => Result<U, F> | Promise<Result<U, F>>,
+): Promise<Result<U, E | F>>;
+export async function andThen<T, E, U, F = E>(
   input: Result<T, E> | Promise<Result<T, E>>,
-  fn: (value: T) => Result<U, E> | Promise<Result<U, E>>,
-): Promise<Result<U, E>> {
+  fn: (value: T) => Result<U, F> | Promise<Result<U, F>>,
+): Promise<Result<U, E | F>> {
   const settled = await input;
   if (settled.ok) {
     return await fn(settled.value);
   }
   return err(settled.error);
 }
+
+/**
+ * A Result produced asynchronously.
+ *
+ * @remarks
+ * The `*Async` combinators below accept either a `Result` or an `AsyncResult`
+ * and accept sync or async callbacks, so async pipelines never need `.then`.
+ *
+ * @example
+ * const fetchUser = (id: number): AsyncResult<User, string> => fromPromise(api.getUser(id));
+ *
+ * @param T - The type of the value contained in the Ok variant
+ * @param E - The type of the error contained in the Error variant
+ */
+export type AsyncResult<T, E> = Promise<Result<T, E>>;
+
+/**
+ * Maps the value of a Result or AsyncResult using a sync or async function.
+ *
+ * @example
+ * const name = await mapAsync(fetchUser(1), (user) => user.name); // Ok("Alice")
+ * const avatar = await mapAsync(ok(user), async (user) => loadAvatar(user.id));
+ *
+ * @param input - A Result or AsyncResult to transform
+ * @param fn - The function to apply to the contained value; may return a Promise
+ * @returns An AsyncResult containing the transformed value, or the original error
+ */
+export async function mapAsync<T, E, U>(
+  input: Result<T, E> | AsyncResult<T, E>,
+  fn: (value: T) => U | Promise<U>,
+): AsyncResult<U, E> {
+  const settled = await input;
+  return settled.ok ? ok(await fn(settled.value)) : settled;
+}
+
+/**
+ * Maps the error of a Result or AsyncResult using a sync or async function.
+ *
+ * @example
+ * const result = await mapErrAsync(fetchUser(1), (message) => new Error(message));
+ *
+ * @param input - A Result or AsyncResult to transform
+ * @param fn - The function to apply to the contained error; may return a Promise
+ * @returns An AsyncResult containing the transformed error, or the original value
+ */
+export async function mapErrAsync<T, E, F>(
+  input: Result<T, E> | AsyncResult<T, E>,
+  fn: (error: E) => F | Promise<F>,
+): AsyncResult<T, F> {
+  const settled = await input;
+  return settled.ok ? settled : err(await fn(settled.error));
+}
+
+/**
+ * Chains a sync or async Result-returning function onto a Result or AsyncResult.
+ * The error type widens to the union of both steps, as with {@link flatMap}.
+ *
+ * @remarks
+ * Equivalent to {@link andThen}, named to match the other `*Async` combinators.
+ *
+ * @example
+ * const posts = await flatMapAsync(fetchUser(1), fetchPosts); // Result<Post[], UserError | PostError>
+ *
+ * @param input - A Result or AsyncResult to chain from
+ * @param fn - A function invoked when input is Ok; may be sync or async but returns a Result
+ * @returns An AsyncResult of the chained operation
+ */
+export function flatMapAsync<T, E, U, F = E>(
+  input: Result<T, E> | AsyncResult<T, E>,
+  fn: (value: T) => Result<U, F> | AsyncResult<U, F>,
+): AsyncResult<U, E | F> {
+  return andThen(input, fn);
+}
+
+/**
+ * Runs a sync or async side effect with the value of a Result or AsyncResult,
+ * waiting for it to finish before passing the Result on unchanged.
+ *
+ * @example
+ * const user = await tapAsync(fetchUser(1), async (user) => audit.log("viewed", user.id));
+ *
+ * @param input - A Result or AsyncResult to tap into
+ * @param fn - The function to execute with the value if Ok; may return a Promise
+ * @returns An AsyncResult with the original Result
+ */
+export async function tapAsync<T, E>(
+  input: Result<T, E> | AsyncResult<T, E>,
+  fn: (value: T) => void | Promise<void>,
+): AsyncResult<T, E> {
+  const settled = await input;
+  if (settled.ok) {
+    await fn(settled.value);
+  }
+  return settled;
+}
+
+/**
+ * Pattern matches on a Result or AsyncResult with sync or async handlers.
+ *
+ * @example
+ * const response = await matchAsync(fetchUser(1), {
+ *   ok: (user) => json(user),
+ *   err: async (error) => renderErrorPage(error),
+ * });
+ *
+ * @param input - A Result or AsyncResult to match against
+ * @param patterns - An object containing handler functions for Ok and Error cases; either may return a Promise
+ * @returns A Promise of the value returned by the matching handler
+ */
+export async function matchAsync<T, E, R>(
+  input: Result<T, E> | AsyncResult<T, E>,
+  patterns: {
+    ok: (value: T) => R | Promise<R>;
+    err: (error: E) => R | Promise<R>;
+  },
+): Promise<R> {
+  const settled = await input;
+  return settled.ok ? patterns.ok(settled.value) : patterns.err(settled.error);
+}
+
+/**
+ * Extracts the value of a Result or AsyncResult, or returns a default value.
+ *
+ * @example
+ * const posts = await unwrapOrAsync(flatMapAsync(fetchUser(1), fetchPosts), []);
+ *
+ * @param input - A Result or AsyncResult to unwrap
+ * @param defaultValue - The value to return if the Result is an error
+ * @returns A Promise of the contained value, or the default value if the Result is an error
+ */
+export async function unwrapOrAsync<T, E>(input: Result<T, E> | AsyncResult<T, E>, defaultValue: T): Promise<T> {
+  const settled = await input;
+  return settled.ok ? settled.value : defaultValue;
+}
+
+/**
+ * Waits for an array of Results and AsyncResults, then combines them like {@link combine}.
+ * All inputs are awaited concurrently; the first Error in array order is returned.
+ *
+ * @example
+ * const [user, settings] = unwrap(await combineAsync([fetchUser(1), ok(defaultSettings)]));
+ *
+ * @param inputs - An array (or tuple) of Results and AsyncResults
+ * @returns An AsyncResult containing the values in input order, or the first Error
+ */
+export async function combineAsync<const R extends readonly (AnyResult | Promise<AnyResult>)[]>(
+  inputs: R,
+): AsyncResult<{ -readonly [K in keyof R]: OkValue<Awaited<R[K]>> }, ErrValue<Awaited<R[number]>>> {
+  const settled = await Promise.all(inputs);
+  return combine(settled as Result<unknown, unknown>[]) as Result<
+    { -readonly [K in keyof R]: OkValue<Awaited<R[K]>> },
+    ErrValue<Awaited<R[number]>>
+  >;
+}
+
+/**
+ * Options for {@link traverseAsync}.
+ *
+ * @param concurrency - The maximum number of tasks running at once (default: unbounded)
+ * @param mode - `"fail-fast"` (default) stops at the first Err; `"collect-all"` runs every task and collects all errors
+ */
+export type TraverseOptions = {
+  readonly concurrency?: number;
+  readonly mode?: "fail-fast" | "collect-all";
+};
+
+/**
+ * Runs a Result-returning async function over every item with bounded parallelism,
+ * returning the values in input order.
+ *
+ * @remarks
+ * At most `concurrency` calls are in flight at any time. In `"fail-fast"` mode
+ * the first Err stops any further calls from starting, aborts the `signal`
+ * passed to calls still in flight, and is returned without waiting for them.
+ * In `"collect-all"` mode every item is processed and the errors are returned
+ * in input order, like {@link combineAll}.
+ *
+ * If `fn` throws or rejects, remaining work is aborted the same way and the
+ * returned Promise rejects.
+ *
+ * @example
+ * const users = await traverseAsync(ids, (id, _index, signal) => fetchUser(id, { signal }), { concurrency: 5 });
+ * // Result<User[], FetchError>
+ *
+ * @example
+ * const checks = await traverseAsync(urls, checkLink, { concurrency: 10, mode: "collect-all" });
+ * // Result<Link[], LinkError[]>
+ *
+ * @param items - The items to process
+ * @param fn - The function to run for each item; receives the item, its index and an AbortSignal
+ * @param options - The concurrency limit and error mode
+ * @returns An AsyncResult containing all values in input order, or the first error (fail-fast) or all errors (collect-all)
+ * @throws {RangeError} If `concurrency` is less than 1
+ */
+export function traverseAsync<A, T, E>(
+  items: readonly A[],
+  fn: (item: A, index: number, signal: AbortSignal) => Result<T, E> | AsyncResult<T, E>,
+  options?: TraverseOptions & { readonly mode?: "fail-fast" },
+): AsyncResult<T[], E>;
+export function traverseAsync<A, T, E>(
+  items: readonly A[],
+  fn: (item: A, index: number, signal: AbortSignal) => Result<T, E> | AsyncResult<T, E>,
+  options: TraverseOptions & { readonly mode: "collect-all" },
+): AsyncResult<T[], E[]>;
+export function traverseAsync<A, T, E>(
+  items: readonly A[],
+  fn: (item: A, index: number, signal: AbortSignal) => Result<T, E> | AsyncResult<T, E>,
+  options?: TraverseOptions,
+): AsyncResult<T[], E | E[]>;
+export async function traverseAsync<A, T, E>(
+  items: readonly A[],
+  fn: (item: A, index: number, signal: AbortSignal) => Result<T, E> | AsyncResult<T, E>,
+  options: TraverseOptions = {},
+): AsyncResult<T[], E | E[]> {
+  const { concurrency = Number.POSITIVE_INFINITY, mode = "fail-fast" } = options;
+  if (!(concurrency >= 1)) {
+    throw new RangeError(`concurrency must be at least 1, received ${concurrency}`);
+  }
+
+  const controller = new AbortController();
+  const tasks = items.map((item, index) => ({ item, index, result: undefined as Result<T, E> | undefined }));
+  // Workers share one iterator, so each task is picked up exactly once
+  const queue = tasks.values();
+  let failure: Err<E> | undefined;
+  let stop: (() => void) | undefined;
+  const stopped = new Promise<void>((resolve) => {
+    stop = resolve;
+  });
+
+  const worker = async () => {
+    for (const task of queue) {
+      if (controller.signal.aborted) return;
+      try {
+        task.result = await fn(task.item, task.index, controller.signal);
+      } catch (error) {
+        controller.abort();
+        throw error;
+      }
+      if (!task.result.ok && mode === "fail-fast") {
+        failure ??= task.result;
+        controller.abort();
+        stop?.();
+        return;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, () => worker());
+  await Promise.race([Promise.all(workers), stopped]);
+
+  if (failure) return failure;
+  const results = tasks.map(({ result }) => result as Result<T, E>);
+  return mode === "collect-all" ? combineAll(results) : combine(results);
+}
+
+/**
+ * Runs a generator in do-notation style, unwrapping Results with `yield*`.
+ *
+ * @remarks
+ * Inside the generator, `yield* result` evaluates to the value of an Ok, or stops
+ * the generator and makes `gen` return that Err. The error type of the returned
+ * Result is the union of every error type yielded in the body, and the value type
+ * is whatever the generator returns. `finally` blocks in the body still run when
+ * the generator is stopped early.
+ *
+ * Importing the module as a namespace gives the `Result.gen` spelling:
+ * `import * as Result from "@railway-ts/core/result"`.
+ *
+ * @example
+ * const parse = (s: string): Result<number, "NaN"> => (Number.isNaN(Number(s)) ? err("NaN") : ok(Number(s)));
+ * const positive = (n: number): Result<number, "NEGATIVE"> => (n > 0 ? ok(n) : err("NEGATIVE"));
+ *
+ * const result = gen(function* () {
+ *   const a = yield* parse("4");
+ *   const b = yield* positive(a);
+ *   return a + b;
+ * }); // Result<number, "NaN" | "NEGATIVE">, Ok(8)
+ *
+ * @param body - A generator function that yields Results with `yield*` and returns the final value
+ * @returns An Ok with the generator's return value, or the first Err it encountered
+ */
+export function gen<Y extends Err<unknown>, T>(body: () => Generator<Y, T, unknown>): Result<T, ErrValue<Y>> {
+  const iterator: Iterator<Y, T, unknown> = body();
+  const step = iterator.next();
+  if (step.done) {
+    return ok(step.value);
+  }
+  iterator.return?.();
+  return step.value as Err<ErrValue<Y>>;
+}
+
+/**
+ * Runs an async generator in do-notation style, unwrapping Results with `yield*`.
+ *
+ * @remarks
+ * The async counterpart to {@link gen}. Await Promise-returning steps before
+ * unwrapping them, i.e. `yield* await step()`, which covers the same
+ * `Promise<Result>` functions that {@link andThen} chains.
+ *
+ * @example
+ * const fetchUser = async (id: number): Promise<Result<User, "NOT_FOUND">> => ...;
+ * const fetchPosts = async (user: User): Promise<Result<Post[], "NETWORK">> => ...;
+ *
+ * const posts = await genAsync(async function* () {
+ *   const user = yield* await fetchUser(1);
+ *   const posts = yield* await fetchPosts(user);
+ *   return posts.length;
+ * }); // Result<number, "NOT_FOUND" | "NETWORK">
+ *
+ * @param body - An async generator function that yields Results with `yield*` and returns the final value
+ * @returns A Promise of an Ok with the generator's return value, or the first Err it encountered
+ */
+export async function genAsync<Y extends Err<unknown>, T>(
+  body: () => AsyncGenerator<Y, T, unknown>,
+): Promise<Result<T, ErrValue<Y>>> {
+  const iterator: AsyncIterator<Y, T, unknown> = body();
+  const step = await iterator.next();
+  if (step.done) {
+    return ok(step.value);
+  }
+  await iterator.return?.();
+  return step.value as Err<ErrValue<Y>>;
+}
@@ -0,0 +1,117 @@
+import { type AsyncResult, type Result } from "./result";
+
+/**
+ * How long to wait between attempts.
+ *
+ * - `fixed`: the same `delay` before every retry.
+ * - `exponential`: `initialDelay * factor ** (retry - 1)`, capped at `maxDelay`.
+ * - `jittered`: a random delay between 0 and the exponential delay ("full jitter"),
+ *   which spreads out retries from many clients failing at once.
+ *
+ * All delays are in milliseconds. `factor` defaults to 2 and `maxDelay` to no cap.
+ */
+export type Backoff =
+  | { readonly type: "fixed"; readonly delay: number }
+  | {
+      readonly type: "exponential" | "jittered";
+      readonly initialDelay: number;
+      readonly factor?: number;
+      readonly maxDelay?: number;
+    };
+
+/**
+ * Configures {@link retry}.
+ *
+ * @param maxAttempts - The total number of attempts, including the first one
+ * @param backoff - How long to wait between attempts (default: no delay)
+ * @param shouldRetry - Decides whether an error is worth retrying (default: every error)
+ * @param sleep - Waits for the given number of milliseconds (default: `setTimeout`); inject it to control time in tests
+ * @param random - Returns a number in [0, 1) for jittered backoff (default: `Math.random`)
+ */
+export type RetryPolicy<E> = {
+  readonly maxAttempts: number;
+  readonly backoff?: Backoff;
+  readonly shouldRetry?: (error: E, attempt: number) => boolean;
+  readonly sleep?: (ms: number) => Promise<void>;
+  readonly random?: () => number;
+};
+
+/**
+ * Waits using the platform timer.
+ *
+ * @internal
+ */
+const defaultSleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Computes the delay before the given retry (1 for the first retry).
+ *
+ * @internal
+ */
+const delayFor = (backoff: Backoff, retryNumber: number, random: () => number): number => {
+  if (backoff.type === "fixed") return backoff.delay;
+  const { initialDelay, factor = 2, maxDelay = Number.POSITIVE_INFINITY } = backoff;
+  const delay = Math.min(initialDelay * factor ** (retryNumber - 1), maxDelay);
+  return backoff.type === "jittered" ? random() * delay : delay;
+};
+
+/**
+ * Runs a Result-returning task, retrying it on Err according to a policy.
+ *
+ * @remarks
+ * The task is called at most `maxAttempts` times. After each Err, `shouldRetry`
+ * is asked whether to try again; if it declines, or no attempts remain, that Err
+ * is returned. The first Ok is returned as soon as it arrives. The task receives
+ * the attempt number, starting at 1.
+ *
+ * Only Err results are retried: if the task throws or rejects, the returned
+ * Promise rejects. Wrap the call with {@link fromPromiseWithError} to turn
+ * exceptions into typed errors first.
+ *
+ * @example
+ * const user = await retry(() => fromPromiseWithError(api.getUser(1), toApiError), {
+ *   maxAttempts: 5,
+ *   backoff: { type: "jittered", initialDelay: 100, maxDelay: 2000 },
+ *   shouldRetry: (error) => error.status >= 500,
+ * }); // Result<User, ApiError>
+ *
+ * @example
+ * // Deterministic in tests
+ * const delays: number[] = [];
+ * await retry(task, {
+ *   maxAttempts: 3,
+ *   backoff: { type: "exponential", initialDelay: 100 },
+ *   sleep: async (ms) => void delays.push(ms),
+ * }); // delays: [100, 200]
+ *
+ * @param task - The operation to run; receives the attempt number
+ * @param policy - How many times to try, how long to wait and which errors to retry
+ * @returns An AsyncResult with the first Ok, or the last Err
+ * @throws {RangeError} If `maxAttempts` is less than 1
+ */
+export async function retry<T, E>(
+  task: (attempt: number) => Result<T, E> | AsyncResult<T, E>,
+  policy: RetryPolicy<E>,
+): AsyncResult<T, E> {
+  const {
+    maxAttempts,
+    backoff = { type: "fixed", delay: 0 },
+    shouldRetry = () => true,
+    sleep = defaultSleep,
+    random = Math.random,
+  } = policy;
+  if (!(maxAttempts >= 1)) {
+    throw new RangeError(`maxAttempts must be at least 1, received ${maxAttempts}`);
+  }
+
+  let attempt = 1;
+  let result = await task(attempt);
+
+  while (!result.ok && attempt < maxAttempts && shouldRetry(result.error, attempt)) {
+    await sleep(delayFor(backoff, attempt, random));
+    attempt++;
+    result = await task(attempt);
+  }
+
+  return result;
+}
@@ -0,0 +1,65 @@
+/**
+ * An instance of a class created by {@link TaggedError}: an Error with a literal
+ * `_tag` and the given properties.
+ *
+ * @param Tag - The literal tag identifying the error
+ * @param Props - The extra properties carried by the error
+ */
+export type TaggedErrorInstance<Tag extends string, Props extends object> = Error & {
+  readonly _tag: Tag;
+} & Readonly<Props>;
+
+/**
+ * The class returned by {@link TaggedError}. Properties are passed as a single
+ * object; it may be omitted when the error has none.
+ *
+ * @param Tag - The literal tag identifying the error
+ * @param Props - The extra properties carried by the error
+ */
+export type TaggedErrorClass<Tag extends string, Props extends object> = new (
+  ...args: keyof Props extends never ? [props?: Props] : [props: Props]
+) => TaggedErrorInstance<Tag, Props>;
+
+/**
+ * Creates an Error class whose instances carry a literal `_tag`, for building
+ * discriminated error unions that {@link catchTag} and {@link catchTags} can narrow.
+ *
+ * @remarks
+ * A `message` property, if given, becomes the Error message (the tag is used
+ * otherwise), and a `cause` property is passed on as the Error cause. All other
+ * properties are copied onto the instance, except `_tag` and `name`, which
+ * always hold the tag.
+ *
+ * @example
+ * class NotFound extends TaggedError("NotFound")<{ id: string }>() {}
+ * class Invalid extends TaggedError("Invalid")<{ reason: string }>() {}
+ *
+ * const error = new NotFound({ id: "42" });
+ * error._tag; // "NotFound"
+ * error.id; // "42"
+ * error instanceof Error; // true
+ *
+ * const findUser = (id: string): Result<User, NotFound | Invalid> => ...;
+ *
+ * @param tag - The literal tag identifying the error
+ * @returns A function that takes the property types and returns the Error class
+ */
+export function TaggedError<const Tag extends string>(
+  tag: Tag,
+): <Props extends object = Record<never, never>>() => TaggedErrorClass<Tag, Props> {
+  return <Props extends object>() => {
+    class Tagged extends Error {
+      declare readonly _tag: Tag;
+
+      constructor(props?: Props) {
+        const { message, cause } = (props ?? {}) as { message?: unknown; cause?: unknown };
+        super(typeof message === "string" ? message : tag, cause === undefined ? undefined : { cause });
+        Object.assign(this, props);
+        // Set after the props, so a `_tag` or `name` among them cannot break matching on the tag
+        this._tag = tag;
+        this.name = tag;
+      }
+    }
+    return Tagged as unknown as TaggedErrorClass<Tag, Props>;
+  };
+}
@@ -0,0 +1,387 @@
+/**
+ * Arbitrary module - Seedable generators and a property runner for Results and Options
+ *
+ * @module testing/arbitrary
+ */
+import { type Option, none, some } from "@/option";
+import { type Result, err, ok, TaggedError } from "@/result";
+
+/**
+ * A generator of random values of type `T`, with a way to shrink a failing value towards simpler ones.
+ *
+ * @remarks
+ * The members are declared as methods so that, for example, an
+ * `Arbitrary<number>` can be passed where an `Arbitrary<unknown>` is expected.
+ *
+ * @param generate - Produces a value from a source of random numbers in [0, 1)
+ * @param shrink - Lists simpler variants of a value, simplest first
+ */
+export type Arbitrary<T> = {
+  generate(random: () => number): T;
+  shrink(value: T): Iterable<T>;
+};
+
+/**
+ * Extracts the generated types of a tuple of Arbitraries.
+ *
+ * @param A - The tuple of Arbitraries
+ */
+export type ArbitraryValues<A extends readonly Arbitrary<unknown>[]> = {
+  -readonly [K in keyof A]: A[K] extends Arbitrary<infer T> ? T : never;
+};
+
+/**
+ * Configures {@link forAll}.
+ *
+ * @param runs - How many random inputs to try (default: 100)
+ * @param seed - The seed of the random numbers (default: random); pass the seed of a failure to reproduce it
+ * @param maxShrinks - How many simplifications to apply to a failing input at most (default: 1000)
+ */
+export type ForAllOptions = {
+  readonly runs?: number;
+  readonly seed?: number;
+  readonly maxShrinks?: number;
+};
+
+/**
+ * The error returned by {@link forAll} when the property fails for some input.
+ *
+ * @param seed - The seed that produced the failure
+ * @param run - The run, starting at 1, in which the property first failed
+ * @param counterexample - The simplest failing input found by shrinking
+ * @param original - The failing input as first generated
+ * @param shrinks - How many simplifications led from the original to the counterexample
+ * @param cause - The error thrown by the property, if it threw rather than returned false
+ */
+export class PropertyFailure
+  // eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+  extends /* @__PURE__ */ TaggedError("PropertyFailure")<{
+    message: string;
+    seed: number;
+    run: number;
+    counterexample: readonly unknown[];
+    original: readonly unknown[];
+    shrinks: number;
+    cause: unknown;
+  }>() {}
+
+/**
+ * Creates a seeded source of random numbers in [0, 1) (mulberry32).
+ *
+ * @example
+ * const random = createRandom(42);
+ * random(); // always the same first number for seed 42
+ *
+ * @param seed - Any integer; the same seed always yields the same sequence
+ * @returns A function returning the next number of the sequence
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 1_831_565_813) >>> 0; // 0x6D2B79F5
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+/**
+ * Lists integers between `target` and `value`, starting at `target` and closing in on `value`.
+ *
+ * @internal
+ */
+function* shrinkTowards(value: number, target: number): Generator<number> {
+  if (value === target) return;
+  yield target;
+  let distance = Math.trunc((value - target) / 2);
+  while (distance !== 0) {
+    yield value - distance;
+    distance = Math.trunc(distance / 2);
+  }
+}
+
+/**
+ * Lists shorter arrays first, then arrays with one element shrunk.
+ *
+ * @internal
+ */
+function* shrinkArray<T>(values: readonly T[], item: Arbitrary<T>, minLength: number): Generator<T[]> {
+  for (const length of shrinkTowards(values.length, minLength)) {
+    yield values.slice(0, length);
+  }
+  for (const [index, value] of values.entries()) {
+    // Removing the last element was already tried as a shorter prefix
+    if (values.length > minLength && index < values.length - 1) yield values.toSpliced(index, 1);
+    for (const smaller of item.shrink(value)) yield values.with(index, smaller);
+  }
+}
+
+/**
+ * Generates integers between `min` and `max` inclusive, shrinking towards 0 (or the bound nearest to it).
+ *
+ * @example
+ * const percent = arbInteger({ min: 0, max: 100 });
+ *
+ * @param range - The bounds (default: -1000 to 1000)
+ * @returns An Arbitrary of integers
+ * @throws {RangeError} If the bounds are not integers or `min` is greater than `max`
+ */
+export function arbInteger({ min = -1000, max = 1000 }: { min?: number; max?: number } = {}): Arbitrary<number> {
+  if (!Number.isSafeInteger(min) || !Number.isSafeInteger(max) || min > max) {
+    throw new RangeError(`Invalid integer range [${min}, ${max}]`);
+  }
+  const target = Math.min(Math.max(0, min), max);
+  return {
+    generate: (random) => min + Math.floor(random() * (max - min + 1)),
+    shrink: (value) => shrinkTowards(value, target),
+  };
+}
+
+/**
+ * Generates booleans, shrinking `true` to `false`.
+ *
+ * @returns An Arbitrary of booleans
+ */
+export function arbBoolean(): Arbitrary<boolean> {
+  return {
+    generate: (random) => random() < 0.5,
+    shrink: (value) => (value ? [false] : []),
+  };
+}
+
+/**
+ * Generates strings of printable ASCII characters, shrinking towards shorter strings of `a`s.
+ *
+ * @param length - The bounds of the length (default: 0 to 20)
+ * @returns An Arbitrary of strings
+ */
+export function arbString({
+  minLength = 0,
+  maxLength = 20,
+}: { minLength?: number; maxLength?: number } = {}): Arbitrary<string> {
+  const characters = arbArray(
+    {
+      generate: (random) => String.fromCodePoint(32 + Math.floor(random() * 95)),
+      shrink: (character) => (character === "a" ? [] : ["a"]),
+    },
+    { minLength, maxLength },
+  );
+  return {
+    generate: (random) => characters.generate(random).join(""),
+    shrink: function* (value) {
+      for (const shrunk of characters.shrink([...value])) yield shrunk.join("");
+    },
+  };
+}
+
+/**
+ * Always generates the same value, which does not shrink.
+ *
+ * @param value - The value to generate
+ * @returns An Arbitrary of that single value
+ */
+export function arbConstant<const T>(value: T): Arbitrary<T> {
+  return { generate: () => value, shrink: () => [] };
+}
+
+/**
+ * Generates one of the given values, shrinking towards the first.
+ *
+ * @example
+ * const status = arbOneOf(["active", "suspended", "deleted"]);
+ *
+ * @param values - The values to choose from
+ * @returns An Arbitrary of those values
+ * @throws {RangeError} If no values are given
+ */
+export function arbOneOf<const T>(values: readonly [T, ...T[]]): Arbitrary<T> {
+  if (values.length === 0) throw new RangeError("arbOneOf needs at least one value");
+  const index = arbInteger({ min: 0, max: values.length - 1 });
+  return {
+    generate: (random) => values.at(index.generate(random)) as T,
+    shrink: function* (value) {
+      for (const smaller of shrinkTowards(values.indexOf(value), 0)) yield values.at(smaller) as T;
+    },
+  };
+}
+
+/**
+ * Generates arrays of values from another Arbitrary, shrinking by removing and shrinking elements.
+ *
+ * @param item - Generates the elements
+ * @param length - The bounds of the length (default: 0 to 10)
+ * @returns An Arbitrary of arrays
+ * @throws {RangeError} If the length bounds are invalid
+ */
+export function arbArray<T>(
+  item: Arbitrary<T>,
+  { minLength = 0, maxLength = 10 }: { minLength?: number; maxLength?: number } = {},
+): Arbitrary<T[]> {
+  if (minLength < 0) throw new RangeError(`minLength must not be negative, received ${minLength}`);
+  const length = arbInteger({ min: minLength, max: maxLength });
+  return {
+    generate: (random) => Array.from({ length: length.generate(random) }, () => item.generate(random)),
+    shrink: (values) => shrinkArray(values, item, minLength),
+  };
+}
+
+/**
+ * Generates Results with values from `value` and errors from `error`, half of them Ok.
+ * Shrinking keeps the variant and shrinks its contents.
+ *
+ * @example
+ * const results = arbArray(arbResult(arbInteger(), arbString()));
+ *
+ * @param value - Generates the Ok values
+ * @param error - Generates the Err errors
+ * @returns An Arbitrary of Results
+ */
+export function arbResult<T, E>(value: Arbitrary<T>, error: Arbitrary<E>): Arbitrary<Result<T, E>> {
+  return {
+    generate: (random) => (random() < 0.5 ? ok(value.generate(random)) : err(error.generate(random))),
+    shrink: function* (result) {
+      if (result.ok) {
+        for (const smaller of value.shrink(result.value)) yield ok(smaller);
+      } else {
+        for (const smaller of error.shrink(result.error)) yield err(smaller);
+      }
+    },
+  };
+}
+
+/**
+ * Generates Options with values from `value`, three quarters of them Some.
+ * A Some shrinks to None first, then to Somes of simpler values.
+ *
+ * @param value - Generates the Some values
+ * @returns An Arbitrary of Options
+ */
+export function arbOption<T>(value: Arbitrary<T>): Arbitrary<Option<T>> {
+  return {
+    generate: (random) => (random() < 0.75 ? some(value.generate(random)) : none()),
+    shrink: function* (option) {
+      if (!option.some) return;
+      yield none();
+      for (const smaller of value.shrink(option.value)) yield some(smaller);
+    },
+  };
+}
+
+/**
+ * Generates a fixed number of values, e.g. as samples for {@link checkMonadLaws}.
+ *
+ * @example
+ * const instances = sample(arbResult(arbInteger(), arbString()), 20, 42);
+ *
+ * @param arbitrary - Generates the values
+ * @param count - How many values to generate
+ * @param seed - The seed of the random numbers; the same seed always yields the same values
+ * @returns The generated values
+ */
+export function sample<T>(arbitrary: Arbitrary<T>, count: number, seed: number): T[] {
+  const random = createRandom(seed);
+  return Array.from({ length: count }, () => arbitrary.generate(random));
+}
+
+/**
+ * Shows a counterexample in a failure message, falling back to `String` for values JSON cannot represent.
+ *
+ * @internal
+ */
+const show = (values: readonly unknown[]): string => {
+  try {
+    return JSON.stringify(values);
+  } catch {
+    return String(values);
+  }
+};
+
+/**
+ * Runs the property, reporting whether it failed and with what.
+ *
+ * @internal
+ */
+const failureOf = <V extends unknown[]>(
+  property: (...values: V) => boolean | void,
+  values: V,
+): { readonly cause: unknown } | undefined => {
+  try {
+    return property(...values) === false ? { cause: undefined } : undefined;
+  } catch (error) {
+    return { cause: error };
+  }
+};
+
+/**
+ * Checks a property on random inputs, shrinking the first failing input to a simpler counterexample.
+ *
+ * @remarks
+ * The property fails when it returns `false` or throws, so assertions such
+ * as `expect` can be used inside it. Runs are deterministic for a given seed;
+ * a failure reports its seed so it can be replayed.
+ *
+ * @example
+ * const property = forAll(
+ *   [arbArray(arbResult(arbInteger(), arbString()))],
+ *   (results) => combine(results).ok === results.every((result) => result.ok),
+ *   { seed: 42 },
+ * );
+ * expect(property).toBeOk();
+ *
+ * @param arbitraries - One Arbitrary per argument of the property
+ * @param property - Returns `false` or throws if the inputs violate the property
+ * @param options - The number of runs, the seed and the shrinking limit
+ * @returns An Ok with the number of runs and the seed, or an Err with a PropertyFailure
+ * @throws {RangeError} If `runs` is less than 1
+ */
+export function forAll<const A extends readonly Arbitrary<unknown>[]>(
+  arbitraries: A,
+  property: (...values: ArbitraryValues<A>) => boolean | void,
+  options: ForAllOptions = {},
+): Result<{ readonly runs: number; readonly seed: number }, PropertyFailure> {
+  const { runs = 100, seed = Math.floor(Math.random() * 4_294_967_296), maxShrinks = 1000 } = options;
+  if (!(runs >= 1)) throw new RangeError(`runs must be at least 1, received ${runs}`);
+  const random = createRandom(seed);
+
+  for (let run = 1; run <= runs; run++) {
+    const original = arbitraries.map((arbitrary) => arbitrary.generate(random)) as ArbitraryValues<A>;
+    let failure = failureOf(property, original);
+    if (!failure) continue;
+
+    // Greedily take the first simpler input that still fails, until none does
+    let counterexample = original;
+    let shrinks = 0;
+    let shrunk = true;
+    while (shrunk && shrinks < maxShrinks) {
+      shrunk = false;
+      search: for (const [index, arbitrary] of arbitraries.entries()) {
+        for (const candidate of arbitrary.shrink(counterexample.at(index))) {
+          const values = counterexample.with(index, candidate) as ArbitraryValues<A>;
+          const candidateFailure = failureOf(property, values);
+          if (candidateFailure) {
+            counterexample = values;
+            failure = candidateFailure;
+            shrinks++;
+            shrunk = true;
+            break search;
+          }
+        }
+      }
+    }
+
+    return err(
+      new PropertyFailure({
+        message: `Property failed after ${run} run(s) with seed ${seed}: ${show(counterexample)}`,
+        seed,
+        run,
+        counterexample,
+        original,
+        shrinks,
+        cause: failure.cause,
+      }),
+    );
+  }
+
+  return ok({ runs, seed });
+}
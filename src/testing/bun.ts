@@ -0,0 +1,28 @@
+/**
+ * Registers the Result and Option matchers with bun:test, including their types.
+ *
+ * @example
+ * // bunfig.toml
+ * // [test]
+ * // preload = ["@railway-ts/core/testing/bun"]
+ *
+ * @example
+ * import "@railway-ts/core/testing/bun";
+ *
+ * expect(ok(1)).toBeOk(1);
+ *
+ * @module testing/bun
+ */
+// eslint-disable-next-line import/no-unresolved -- provided by the Bun runtime
+import { expect } from "bun:test";
+
+import { type RailwayMatchers, matchers } from "./matchers";
+
+expect.extend(matchers);
+
+declare module "bun:test" {
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type, @typescript-eslint/no-unused-vars -- declaration merging
+  interface Matchers<T> extends RailwayMatchers<void> {}
+  // eslint-disable-next-line @typescript-eslint/no-empty-object-type -- declaration merging
+  interface AsymmetricMatchers extends RailwayMatchers<void> {}
+}
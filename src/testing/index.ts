@@ -0,0 +1,7 @@
+/**
+ * Testing module - Matchers and law checks for Results and Options
+ *
+ * @module testing
+ */
+export * from "./matchers";
+export * from "./laws";
@@ -0,0 +1,247 @@
+import { TaggedError } from "@/result/tagged-error";
+import { deepEqual } from "@/utils";
+
+/**
+ * The laws checked by {@link checkFunctorLaws} and {@link checkMonadLaws}.
+ */
+export type Law =
+  | "functor identity"
+  | "functor composition"
+  | "monad left identity"
+  | "monad right identity"
+  | "monad associativity";
+
+/**
+ * A law that did not hold for some inputs, with both sides of the equation.
+ *
+ * @param law - The law that was violated
+ * @param inputs - The sample instance or value, followed by the sample functions used
+ * @param left - The left-hand side of the law for these inputs
+ * @param right - The right-hand side of the law for these inputs
+ */
+export type LawViolation<M> = {
+  readonly law: Law;
+  readonly inputs: readonly unknown[];
+  readonly left: M;
+  readonly right: M;
+};
+
+/**
+ * The error thrown by the properties of {@link functorLaws} and {@link monadLaws}
+ * when a law does not hold, so a property runner reports it as the cause of the failure.
+ *
+ * @param violations - The laws that did not hold for the inputs
+ */
+export class LawsViolated
+  // eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+  extends /* @__PURE__ */ TaggedError("LawsViolated")<{
+    message: string;
+    violations: readonly LawViolation<unknown>[];
+  }>()
+{
+  constructor(violations: readonly LawViolation<unknown>[]) {
+    super({ message: `Violated: ${violations.map(({ law }) => law).join(", ")}`, violations });
+  }
+}
+
+/**
+ * The `map` of a container type `M` holding values of type `A`, under test.
+ *
+ * @remarks
+ * TypeScript has no higher-kinded types, so the laws are checked for
+ * functions from `A` to `A`; pick an `A` that can represent the values your
+ * combinators care about.
+ *
+ * @param map - The map to check
+ * @param equals - Compares two instances (default: {@link deepEqual})
+ */
+export type FunctorSubject<M, A> = {
+  readonly map: (instance: M, fn: (value: A) => A) => M;
+  readonly equals?: (a: M, b: M) => boolean;
+};
+
+/**
+ * The `of` and `flatMap` of a container type `M` holding values of type `A`, under test.
+ *
+ * @param of - Wraps a value, e.g. `ok` or `some`
+ * @param flatMap - The flatMap to check
+ * @param equals - Compares two instances (default: {@link deepEqual})
+ */
+export type MonadSubject<M, A> = {
+  readonly of: (value: A) => M;
+  readonly flatMap: (instance: M, fn: (value: A) => M) => M;
+  readonly equals?: (a: M, b: M) => boolean;
+};
+
+/**
+ * The sample inputs the laws are checked on. Every combination is tried, so keep the lists short.
+ *
+ * @param instances - Instances to map over and flatMap, e.g. Oks and Errs
+ * @param values - Values to wrap with `of`, for left identity
+ * @param functions - Functions to map with
+ * @param chains - Functions to flatMap with, e.g. ones returning both Ok and Err
+ */
+export type LawSamples<M, A> = {
+  readonly instances: readonly M[];
+  readonly values?: readonly A[];
+  readonly functions?: readonly ((value: A) => A)[];
+  readonly chains?: readonly ((value: A) => M)[];
+};
+
+/**
+ * Checks that a map obeys the functor laws on every combination of the samples:
+ *
+ * - identity: `map(m, (x) => x)` equals `m`
+ * - composition: `map(map(m, f), g)` equals `map(m, (x) => g(f(x)))`
+ *
+ * @example
+ * const violations = checkFunctorLaws<Result<number, string>, number>(
+ *   { map },
+ *   { instances: [ok(1), err("boom")], functions: [(n) => n + 1, (n) => n * 2] },
+ * );
+ * expect(violations).toEqual([]);
+ *
+ * @param subject - The map to check, and how to compare its results
+ * @param samples - The instances and functions to check it on
+ * @returns The violations found, empty if the laws held for every sample
+ */
+export function checkFunctorLaws<M, A>(subject: FunctorSubject<M, A>, samples: LawSamples<M, A>): LawViolation<M>[] {
+  const { map, equals = deepEqual } = subject;
+  const { instances, functions = [] } = samples;
+  const violations: LawViolation<M>[] = [];
+  const check = (law: Law, inputs: readonly unknown[], left: M, right: M) => {
+    if (!equals(left, right)) violations.push({ law, inputs, left, right });
+  };
+
+  for (const m of instances) {
+    check(
+      "functor identity",
+      [m],
+      map(m, (x) => x),
+      m,
+    );
+    for (const f of functions) {
+      for (const g of functions) {
+        check(
+          "functor composition",
+          [m, f, g],
+          map(map(m, f), g),
+          map(m, (x) => g(f(x))),
+        );
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Checks that `of` and flatMap obey the monad laws on every combination of the samples:
+ *
+ * - left identity: `flatMap(of(a), f)` equals `f(a)`
+ * - right identity: `flatMap(m, of)` equals `m`
+ * - associativity: `flatMap(flatMap(m, f), g)` equals `flatMap(m, (x) => flatMap(f(x), g))`
+ *
+ * @example
+ * const violations = checkMonadLaws<Option<number>, number>(
+ *   { of: some, flatMap },
+ *   {
+ *     instances: [some(1), none()],
+ *     values: [0, 1],
+ *     chains: [(n) => (n > 0 ? some(n - 1) : none()), (n) => some(n * 2)],
+ *   },
+ * );
+ * expect(violations).toEqual([]);
+ *
+ * @param subject - The `of` and flatMap to check, and how to compare their results
+ * @param samples - The instances, values and functions to check them on
+ * @returns The violations found, empty if the laws held for every sample
+ */
+export function checkMonadLaws<M, A>(subject: MonadSubject<M, A>, samples: LawSamples<M, A>): LawViolation<M>[] {
+  const { of, flatMap, equals = deepEqual } = subject;
+  const { instances, values = [], chains = [] } = samples;
+  const violations: LawViolation<M>[] = [];
+  const check = (law: Law, inputs: readonly unknown[], left: M, right: M) => {
+    if (!equals(left, right)) violations.push({ law, inputs, left, right });
+  };
+
+  for (const a of values) {
+    for (const f of chains) {
+      check("monad left identity", [a, f], flatMap(of(a), f), f(a));
+    }
+  }
+  for (const m of instances) {
+    check("monad right identity", [m], flatMap(m, of), m);
+    for (const f of chains) {
+      for (const g of chains) {
+        check(
+          "monad associativity",
+          [m, f, g],
+          flatMap(flatMap(m, f), g),
+          flatMap(m, (x) => flatMap(f(x), g)),
+        );
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Throws a {@link LawsViolated} if any violations were found.
+ *
+ * @internal
+ */
+const assertNoViolations = (violations: readonly LawViolation<unknown>[]): true => {
+  if (violations.length > 0) throw new LawsViolated(violations);
+  return true;
+};
+
+/**
+ * Turns the functor laws into a property over one instance and two functions,
+ * for a property runner such as `forAll` from `@railway-ts/core/testing/arbitrary`.
+ * Generated inputs replace fixed samples, and a runner that shrinks reports the
+ * simplest instance that breaks a law.
+ *
+ * @remarks
+ * The property throws a {@link LawsViolated} naming the broken laws, so the
+ * runner's failure carries them as its cause.
+ *
+ * @example
+ * const property = functorLaws<Result<number, string>, number>({ map });
+ * property(ok(1), (n) => n + 1, (n) => n * 2); // true
+ *
+ * const fns = arbOneOf([(n: number) => n + 1, (n: number) => n * 2]);
+ * expect(forAll([arbResult(arbInteger(), arbString()), fns, fns], property, { seed: 42 })).toBeOk();
+ *
+ * @param subject - The map to check, and how to compare its results
+ * @returns A property taking an instance and two functions to map with
+ */
+export function functorLaws<M, A>(
+  subject: FunctorSubject<M, A>,
+): (instance: M, f: (value: A) => A, g: (value: A) => A) => boolean {
+  return (instance, f, g) =>
+    assertNoViolations(checkFunctorLaws(subject, { instances: [instance], functions: [f, g] }));
+}
+
+/**
+ * Turns the monad laws into a property over one instance, one value and two
+ * functions to flatMap with, for a property runner such as `forAll`.
+ *
+ * @remarks
+ * As with {@link functorLaws}, the property throws a {@link LawsViolated}
+ * naming the broken laws.
+ *
+ * @example
+ * const property = monadLaws({ of: ok, flatMap });
+ * property(err("boom"), 1, (n) => ok(n * 2), (n) => (n > 0 ? ok(n - 1) : err("not positive"))); // true
+ *
+ * @param subject - The `of` and flatMap to check, and how to compare their results
+ * @returns A property taking an instance, a value to wrap with `of`, and two functions to flatMap with
+ */
+export function monadLaws<M, A>(
+  subject: MonadSubject<M, A>,
+): (instance: M, value: A, f: (value: A) => M, g: (value: A) => M) => boolean {
+  return (instance, value, f, g) =>
+    assertNoViolations(checkMonadLaws(subject, { instances: [instance], values: [value], chains: [f, g] }));
+}
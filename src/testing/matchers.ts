@@ -0,0 +1,149 @@
+import { isOption } from "@/option";
+import { isResult } from "@/result";
+
+/**
+ * The part of the `this` context of custom matchers shared by bun:test and Jest.
+ *
+ * @remarks
+ * `diff` is only provided by Jest; without it, failure messages show the
+ * expected and received values one above the other.
+ */
+export type MatcherContext = {
+  readonly isNot: boolean;
+  readonly equals: (a: unknown, b: unknown) => boolean;
+  readonly utils: {
+    readonly printExpected: (value: unknown) => string;
+    readonly printReceived: (value: unknown) => string;
+    readonly diff?: (expected: unknown, received: unknown) => string | null;
+  };
+};
+
+/**
+ * The outcome of a matcher, as expected by `expect.extend`.
+ */
+export type MatcherResult = {
+  readonly pass: boolean;
+  readonly message: () => string;
+};
+
+/**
+ * The matchers added to `expect` by {@link matchers}, for declaration merging.
+ *
+ * @example
+ * // Jest
+ * declare module "expect" {
+ *   interface Matchers<R> extends RailwayMatchers<R> {}
+ * }
+ *
+ * @param R - The return type of matchers in the test framework
+ */
+export type RailwayMatchers<R = unknown> = {
+  /** Passes for an Ok, holding a value equal to `value` if one is given. */
+  toBeOk(value?: unknown): R;
+  /** Passes for an Err, holding an error equal to `error` if one is given. */
+  toBeErr(error?: unknown): R;
+  /** Passes for a Some, holding a value equal to `value` if one is given. */
+  toBeSome(value?: unknown): R;
+  /** Passes for a None. */
+  toBeNone(): R;
+  /** Passes for an Ok whose value satisfies `predicate`. */
+  toBeOkMatching(predicate: (value: never) => boolean): R;
+};
+
+/**
+ * Describes the received value in terms of its variant, e.g. `Err("boom")`.
+ *
+ * @internal
+ */
+const describeReceived = (context: MatcherContext, received: unknown): string => {
+  // The utils are methods in bun:test, so they are called on the object rather than destructured
+  const { utils } = context;
+  if (isResult(received)) {
+    return received.ok ? `Ok(${utils.printReceived(received.value)})` : `Err(${utils.printReceived(received.error)})`;
+  }
+  if (isOption(received)) return received.some ? `Some(${utils.printReceived(received.value)})` : "None";
+  return utils.printReceived(received);
+};
+
+/**
+ * Checks the variant and, when an expected value is given, the contents of a Result or Option.
+ *
+ * @internal
+ */
+const matchVariant = (
+  context: MatcherContext,
+  variant: string,
+  received: unknown,
+  expected: [value?: unknown],
+  select: (received: unknown) => { readonly contents: unknown } | undefined,
+): MatcherResult => {
+  const { utils } = context;
+  const selected = select(received);
+  const pass = selected !== undefined && (expected.length === 0 || context.equals(selected.contents, expected[0]));
+
+  const message = () => {
+    const not = context.isNot ? "not " : "";
+    const expectation = expected.length === 0 ? variant : `${variant}(${utils.printExpected(expected[0])})`;
+    const base = `Expected: ${not}${expectation}\nReceived: ${describeReceived(context, received)}`;
+    // Only a failed comparison of contents has a useful diff
+    if (context.isNot || expected.length === 0 || selected === undefined) return base;
+    const difference = utils.diff?.(expected[0], selected.contents);
+    return difference ? `${base}\n\n${difference}` : base;
+  };
+  return { pass, message };
+};
+
+/**
+ * Custom matchers for Results and Options, compatible with `expect.extend` in bun:test and Jest.
+ *
+ * @remarks
+ * Expected values are compared with the framework's own equality, so
+ * asymmetric matchers such as `expect.any(Number)` work inside them.
+ * For bun:test, importing `@railway-ts/core/testing/bun` registers the
+ * matchers and their types in one step.
+ *
+ * @example
+ * import { expect } from "@jest/globals";
+ * import { matchers } from "@railway-ts/core/testing";
+ *
+ * expect.extend(matchers);
+ *
+ * expect(parseAge("42")).toBeOk(42);
+ * expect(parseAge("abc")).toBeErr(expect.stringContaining("not a number"));
+ * expect(findUser(1)).toBeSome();
+ * expect(fetchUser(1)).toBeOkMatching((user: User) => user.active);
+ */
+export const matchers = {
+  toBeOk(this: MatcherContext, received: unknown, ...expected: [value?: unknown]): MatcherResult {
+    return matchVariant(this, "Ok", received, expected, (value) =>
+      isResult(value) && value.ok ? { contents: value.value } : undefined,
+    );
+  },
+
+  toBeErr(this: MatcherContext, received: unknown, ...expected: [value?: unknown]): MatcherResult {
+    return matchVariant(this, "Err", received, expected, (value) =>
+      isResult(value) && !value.ok ? { contents: value.error } : undefined,
+    );
+  },
+
+  toBeSome(this: MatcherContext, received: unknown, ...expected: [value?: unknown]): MatcherResult {
+    return matchVariant(this, "Some", received, expected, (value) =>
+      isOption(value) && value.some ? { contents: value.value } : undefined,
+    );
+  },
+
+  toBeNone(this: MatcherContext, received: unknown): MatcherResult {
+    return matchVariant(this, "None", received, [], (value) =>
+      isOption(value) && !value.some ? { contents: undefined } : undefined,
+    );
+  },
+
+  toBeOkMatching(this: MatcherContext, received: unknown, predicate: (value: never) => boolean): MatcherResult {
+    const pass = isResult(received) && received.ok && predicate(received.value as never) === true;
+    const message = () => {
+      const not = this.isNot ? "not " : "";
+      return `Expected: ${not}Ok with a value matching the predicate\nReceived: ${describeReceived(this, received)}`;
+    };
+    return { pass, message };
+  },
+};
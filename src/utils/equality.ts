@@ -0,0 +1,135 @@
+/**
+ * Decides whether two values are equal.
+ *
+ * @param T - The type of the compared values
+ */
+export type Eq<T> = (a: T, b: T) => boolean;
+
+/**
+ * Orders two values: negative if `a` comes first, positive if `b` does, 0 if they are equal.
+ * The same contract as the comparator of `Array.prototype.sort`.
+ *
+ * @param T - The type of the compared values
+ */
+export type Ord<T> = (a: T, b: T) => number;
+
+/**
+ * Pairs every member with a distinct equal candidate. Used for the Set members
+ * and Map keys that are not shared by identity.
+ *
+ * @internal
+ */
+const matchEach = <T>(members: readonly T[], candidates: readonly T[], equal: Eq<T>): boolean => {
+  const remaining = [...candidates];
+  return members.every((member) => {
+    const index = remaining.findIndex((candidate) => equal(member, candidate));
+    if (index === -1) return false;
+    remaining.splice(index, 1);
+    return true;
+  });
+};
+
+/**
+ * Compares two values, remembering the object pairs under comparison so cyclic structures terminate.
+ *
+ * @internal
+ */
+const equalIn = (a: unknown, b: unknown, visiting: Map<object, Set<object>>): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  // A pair already being compared further up is assumed equal; any difference is found there
+  const pairs = visiting.get(a) ?? new Set<object>();
+  if (pairs.has(b)) return true;
+  visiting.set(a, pairs.add(b));
+
+  if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+  if (a instanceof RegExp) return String(a) === String(b);
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    if (a.size !== other.size) return false;
+    const unmatched: [unknown, unknown][] = [];
+    for (const [key, value] of a) {
+      if (!other.has(key)) unmatched.push([key, value]);
+      else if (!equalIn(value, other.get(key), visiting)) return false;
+    }
+    return matchEach(
+      unmatched,
+      [...other].filter(([key]) => !a.has(key)),
+      ([key, value], [otherKey, otherValue]) => deepEqual(key, otherKey) && deepEqual(value, otherValue),
+    );
+  }
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    if (a.size !== other.size) return false;
+    return matchEach(
+      [...a].filter((value) => !other.has(value)),
+      [...other].filter((value) => !a.has(value)),
+      deepEqual,
+    );
+  }
+  if (a instanceof Error) {
+    const other = b as Error;
+    if (a.name !== other.name || a.message !== other.message || !equalIn(a.cause, other.cause, visiting)) return false;
+  }
+
+  const aKeys = Object.keys(a);
+  const bEntries = new Map(Object.entries(b));
+  if (aKeys.length !== bEntries.size) return false;
+  return Object.entries(a).every(([key, value]) => bEntries.has(key) && equalIn(value, bEntries.get(key), visiting));
+};
+
+/**
+ * Structural equality: primitives are compared with `Object.is`, and arrays,
+ * plain objects, Maps, Sets, Dates, RegExps and Errors by their contents.
+ *
+ * @remarks
+ * Objects must share a prototype to be equal, so class instances are only
+ * equal to instances of the same class. Object keys are compared by their own
+ * enumerable string properties. Set members and Map keys are matched by
+ * identity first, and the rest structurally, which is quadratic in their
+ * number. Errors are also compared by name, message and cause. Cyclic
+ * structures are supported.
+ *
+ * @example
+ * deepEqual({ tags: ["a"], at: new Date(0) }, { tags: ["a"], at: new Date(0) }); // true
+ * deepEqual(ok(1), ok(1)); // true
+ * deepEqual(new Set([{ id: 1 }]), new Set([{ id: 1 }])); // true
+ * deepEqual([1, 2], [2, 1]); // false
+ *
+ * @param a - The first value
+ * @param b - The second value
+ * @returns Whether the values are structurally equal
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  return equalIn(a, b, new Map());
+}
+
+/**
+ * The natural order of primitives: numbers, bigints and strings ascending
+ * (strings by UTF-16 code units), `false` before `true`, and Dates by time.
+ *
+ * @remarks
+ * NaN is ordered before every other number, so the order is total.
+ * Values of different types, and other objects, have no natural order;
+ * pass an explicit {@link Ord} for those.
+ *
+ * @example
+ * [3, 1, 2].sort(naturalOrder); // [1, 2, 3]
+ *
+ * @param a - The first value
+ * @param b - The second value
+ * @returns A negative number, zero, or a positive number
+ * @throws {TypeError} If the values are not of the same orderable type
+ */
+export function naturalOrder(a: unknown, b: unknown): number {
+  if (a instanceof Date && b instanceof Date) return naturalOrder(a.getTime(), b.getTime());
+  const type = typeof a;
+  if (type !== typeof b || !["number", "bigint", "string", "boolean"].includes(type)) {
+    throw new TypeError(`Cannot order ${type} and ${typeof b} without a compare function`);
+  }
+  if (Number.isNaN(a) || Number.isNaN(b)) return Number(!Number.isNaN(a)) - Number(!Number.isNaN(b));
+  if ((a as number) < (b as number)) return -1;
+  return (a as number) > (b as number) ? 1 : 0;
+}
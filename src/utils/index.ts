@@ -11,3 +11,4 @@ export * from "./curry";
 export * from "./uncurry";
 export * from "./tupled";
 export * from "./untupled";
+export * from "./equality";
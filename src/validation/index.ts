@@ -0,0 +1,6 @@
+/**
+ * Validation type module - Accumulate every error instead of stopping at the first
+ *
+ * @module validation
+ */
+export * from "./validation";
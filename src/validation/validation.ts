@@ -0,0 +1,347 @@
+import { type Result, ok, err } from "@/result";
+
+/**
+ * Symbol used to identify Validation objects.
+ *
+ * @remarks
+ * Registered with `Symbol.for`, so Validations created by another copy of the
+ * library (e.g. a second bundle) carry the same brand.
+ *
+ * @internal
+ */
+export const VALIDATION_BRAND: unique symbol = Symbol.for("@railway-ts/core/VALIDATION_BRAND");
+
+/**
+ * An array with at least one element.
+ *
+ * @param T - The element type
+ */
+export type NonEmptyArray<T> = readonly [T, ...T[]];
+
+/**
+ * Represents a Validation type.
+ *
+ * @remarks
+ * Unlike Result, combining Validations with {@link ap} or {@link zipWith} keeps
+ * every failure instead of stopping at the first one. `E` is the error
+ * collection itself: a {@link NonEmptyArray} by default (see {@link invalid}),
+ * or any other type you supply a {@link Merge} function for, such as a record
+ * of errors keyed by field.
+ *
+ * @example
+ * const name: Validation<string, NonEmptyArray<string>> = valid("Alice");
+ * const age: Validation<number, NonEmptyArray<string>> = invalid("Age must be positive");
+ *
+ * @param T - The type of the value contained in the Valid variant
+ * @param E - The type of the error collection contained in the Invalid variant
+ * @returns A Validation containing a value or a collection of errors
+ */
+export type Validation<T, E> =
+  | {
+      readonly valid: true;
+      readonly value: T;
+      readonly [VALIDATION_BRAND]: "valid";
+    }
+  | {
+      readonly valid: false;
+      readonly errors: E;
+      readonly [VALIDATION_BRAND]: "invalid";
+    };
+
+/**
+ * Combines two error collections into one.
+ *
+ * @param E - The type of the error collection
+ */
+export type Merge<E> = (left: E, right: E) => E;
+
+/**
+ * Creates a Validation containing a value.
+ *
+ * @example
+ * const validation = valid(42);
+ *
+ * @param value - The value to contain
+ * @returns A Validation containing the value
+ */
+export function valid<T, E = never>(value: T): Validation<T, E> {
+  return { valid: true, value, [VALIDATION_BRAND]: "valid" };
+}
+
+/**
+ * Creates a Validation containing a single error, collected in a non-empty array.
+ *
+ * @example
+ * const validation = invalid("Name is required"); // errors: ["Name is required"]
+ *
+ * @param error - The error to contain
+ * @returns A Validation containing a non-empty array with the error
+ */
+export function invalid<E>(error: E): Validation<never, NonEmptyArray<E>> {
+  return invalidAll([error]);
+}
+
+/**
+ * Creates a Validation from an already-built error collection.
+ * Use this for collections other than arrays, such as records keyed by field.
+ *
+ * @example
+ * const validation = invalidAll({ name: "Name is required" });
+ *
+ * @param errors - The error collection to contain
+ * @returns A Validation containing the error collection
+ */
+export function invalidAll<E>(errors: E): Validation<never, E> {
+  return { valid: false, errors, [VALIDATION_BRAND]: "invalid" };
+}
+
+/**
+ * Type guard that checks if a Validation is a Valid variant containing a value.
+ *
+ * @example
+ * const validation = valid(42);
+ * if (isValid(validation)) {
+ *   console.log(validation.value);
+ * }
+ *
+ * @param validation - The Validation to check
+ * @returns A type predicate indicating if the Validation is a Valid variant
+ */
+export function isValid<T, E>(validation: Validation<T, E>): validation is Extract<Validation<T, E>, { valid: true }> {
+  return validation.valid;
+}
+
+/**
+ * Type guard that checks if a Validation is an Invalid variant containing errors.
+ *
+ * @example
+ * const validation = invalid("boom");
+ * if (isInvalid(validation)) {
+ *   console.log(validation.errors);
+ * }
+ *
+ * @param validation - The Validation to check
+ * @returns A type predicate indicating if the Validation is an Invalid variant
+ */
+export function isInvalid<T, E>(
+  validation: Validation<T, E>,
+): validation is Extract<Validation<T, E>, { valid: false }> {
+  return !validation.valid;
+}
+
+/**
+ * Merges two non-empty arrays of errors by concatenation. This is the default
+ * {@link Merge} used by {@link ap} and {@link zipWith}.
+ *
+ * @example
+ * concatErrors(["a"], ["b", "c"]); // ["a", "b", "c"]
+ *
+ * @param left - The first error collection
+ * @param right - The second error collection
+ * @returns A non-empty array with the errors of both collections
+ */
+export function concatErrors<E>(left: NonEmptyArray<E>, right: NonEmptyArray<E>): NonEmptyArray<E> {
+  return [...left, ...right];
+}
+
+/**
+ * Merges two records of errors keyed by field. Fields present in both records
+ * keep the error from `right`.
+ *
+ * @example
+ * const merge: Merge<Partial<Record<"name" | "age", string>>> = mergeErrors;
+ * merge({ name: "required" }, { age: "negative" }); // { name: "required", age: "negative" }
+ *
+ * @param left - The first error record
+ * @param right - The second error record
+ * @returns A record with the fields of both error records
+ */
+export function mergeErrors<E extends object>(left: E, right: E): E {
+  return { ...left, ...right };
+}
+
+/**
+ * Maps the value inside a Validation using a transformation function.
+ *
+ * @example
+ * const validation = map(valid(21), (n) => n * 2); // valid(42)
+ *
+ * @param validation - The Validation to transform
+ * @param fn - The function to apply to the contained value
+ * @returns A new Validation containing the transformed value, or the original errors
+ */
+export function map<T, E, U>(validation: Validation<T, E>, fn: (value: T) => U): Validation<U, E> {
+  return validation.valid ? valid(fn(validation.value)) : validation;
+}
+
+/**
+ * Maps the error collection inside a Validation using a transformation function.
+ *
+ * @example
+ * const validation = mapErrors(invalid("boom"), (errors) => errors.map((e) => e.toUpperCase()));
+ *
+ * @param validation - The Validation to transform
+ * @param fn - The function to apply to the contained error collection
+ * @returns A new Validation containing the transformed errors, or the original value
+ */
+export function mapErrors<T, E, F>(validation: Validation<T, E>, fn: (errors: E) => F): Validation<T, F> {
+  return validation.valid ? validation : invalidAll(fn(validation.errors));
+}
+
+/**
+ * Applies a Validation of a function to a Validation of a value, accumulating
+ * errors from both sides.
+ *
+ * @remarks
+ * When both sides are Invalid their error collections are merged, so chains of
+ * `ap` (and nested Validations built with it) produce a single flat collection
+ * rather than nested arrays. Arrays are concatenated by default; pass a
+ * {@link Merge} function for other collection types.
+ *
+ * @example
+ * const makeUser = (name: string) => (age: number) => ({ name, age });
+ *
+ * ap(ap(valid(makeUser), validateName("")), validateAge(-1));
+ * // invalidAll(["Name is required", "Age must be positive"])
+ *
+ * @param fn - A Validation containing a function
+ * @param arg - A Validation containing the argument
+ * @param merge - Combines the error collections when both sides are Invalid
+ * @returns A Validation containing the function applied to the argument, or the accumulated errors
+ */
+export function ap<A, B, E1, E2>(
+  fn: Validation<(value: A) => B, NonEmptyArray<E1>>,
+  arg: Validation<A, NonEmptyArray<E2>>,
+): Validation<B, NonEmptyArray<E1 | E2>>;
+export function ap<A, B, E>(
+  fn: Validation<(value: A) => B, E>,
+  arg: Validation<A, E>,
+  merge: Merge<E>,
+): Validation<B, E>;
+export function ap<A, B, E>(
+  fn: Validation<(value: A) => B, E>,
+  arg: Validation<A, E>,
+  merge: Merge<E> = concatErrors as unknown as Merge<E>,
+): Validation<B, E> {
+  return zipWith(fn, arg, (f, a) => f(a), merge);
+}
+
+/**
+ * Combines two Validations with a function, accumulating errors from both sides.
+ *
+ * @remarks
+ * When both sides are Invalid their error collections are merged with `merge`,
+ * which concatenates arrays by default.
+ *
+ * @example
+ * zipWith(validateName("Alice"), validateAge(30), (name, age) => ({ name, age })); // valid({ name: "Alice", age: 30 })
+ * zipWith(validateName(""), validateAge(-1), (name, age) => ({ name, age }));
+ * // invalidAll(["Name is required", "Age must be positive"])
+ *
+ * @example
+ * // Errors keyed by field
+ * type FormErrors = Partial<Record<"name" | "age", string>>;
+ * zipWith(
+ *   invalidAll<FormErrors>({ name: "required" }),
+ *   invalidAll<FormErrors>({ age: "negative" }),
+ *   (name, age) => ({ name, age }),
+ *   mergeErrors,
+ * ); // invalidAll({ name: "required", age: "negative" })
+ *
+ * @param left - The first Validation
+ * @param right - The second Validation
+ * @param fn - The function combining both values when both are Valid
+ * @param merge - Combines the error collections when both sides are Invalid
+ * @returns A Validation containing the combined value, or the accumulated errors
+ */
+export function zipWith<A, B, C, E1, E2>(
+  left: Validation<A, NonEmptyArray<E1>>,
+  right: Validation<B, NonEmptyArray<E2>>,
+  fn: (a: A, b: B) => C,
+): Validation<C, NonEmptyArray<E1 | E2>>;
+export function zipWith<A, B, C, E>(
+  left: Validation<A, E>,
+  right: Validation<B, E>,
+  fn: (a: A, b: B) => C,
+  merge: Merge<E>,
+): Validation<C, E>;
+export function zipWith<A, B, C, E>(
+  left: Validation<A, E>,
+  right: Validation<B, E>,
+  fn: (a: A, b: B) => C,
+  merge: Merge<E> = concatErrors as unknown as Merge<E>,
+): Validation<C, E> {
+  if (left.valid && right.valid) {
+    return valid(fn(left.value, right.value));
+  }
+  if (!left.valid && !right.valid) {
+    return invalidAll(merge(left.errors, right.errors));
+  }
+  return left.valid ? (right as Validation<never, E>) : (left as Validation<never, E>);
+}
+
+/**
+ * Pattern matches on a Validation to handle both Valid and Invalid cases.
+ *
+ * @example
+ * const message = match(validation, {
+ *   valid: (value) => `Saved ${value.name}`,
+ *   invalid: (errors) => errors.join(", "),
+ * });
+ *
+ * @param validation - The Validation to match against
+ * @param patterns - An object containing handler functions for Valid and Invalid cases
+ * @returns The result of calling the appropriate handler function
+ */
+export function match<T, E, R>(
+  validation: Validation<T, E>,
+  patterns: {
+    valid: (value: T) => R;
+    invalid: (errors: E) => R;
+  },
+): R {
+  if (validation.valid) {
+    const validFn = patterns.valid;
+    return validFn(validation.value);
+  } else {
+    const invalidFn = patterns.invalid;
+    return invalidFn(validation.errors);
+  }
+}
+
+/**
+ * Converts a Result to a Validation.
+ * By default the error is wrapped in a non-empty array; pass `toErrors` to build
+ * a different error collection.
+ *
+ * @example
+ * fromResult(ok(42)); // valid(42)
+ * fromResult(err("boom")); // invalid(["boom"])
+ * fromResult(err("required"), (e) => ({ name: e })); // invalidAll({ name: "required" })
+ *
+ * @param result - The Result to convert
+ * @param toErrors - Optional function building the error collection from the Result's error
+ * @returns A Validation containing the value, or the error collection
+ */
+export function fromResult<T, E>(result: Result<T, E>): Validation<T, NonEmptyArray<E>>;
+export function fromResult<T, E, F>(result: Result<T, E>, toErrors: (error: E) => F): Validation<T, F>;
+export function fromResult<T, E, F>(
+  result: Result<T, E>,
+  toErrors: (error: E) => F = (error) => [error] as unknown as F,
+): Validation<T, F> {
+  return result.ok ? valid(result.value) : invalidAll(toErrors(result.error));
+}
+
+/**
+ * Converts a Validation to a Result, carrying the whole error collection as the error.
+ *
+ * @example
+ * toResult(valid(42)); // ok(42)
+ * toResult(invalid("boom")); // err(["boom"])
+ *
+ * @param validation - The Validation to convert
+ * @returns A Result containing the value, or the error collection
+ */
+export function toResult<T, E>(validation: Validation<T, E>): Result<T, E> {
+  return validation.valid ? ok(validation.value) : err(validation.errors);
+}
@@ -0,0 +1,193 @@
+import { describe, test, expect } from "bun:test";
+
+import {
+  type Decoder,
+  type Infer,
+  string,
+  number,
+  boolean,
+  literal,
+  object,
+  array,
+  union,
+  optional,
+  refine,
+  formatDecodeError,
+} from "@/decoder";
+import { D } from "@/index";
+import { none, some } from "@/option";
+import { type Result, ok, err, isOk, isErr } from "@/result";
+import { flatMap, map } from "@/result/pipeable";
+import { pipe } from "@/utils";
+
+describe("Decoder", () => {
+  describe("primitives", () => {
+    test("string accepts strings only", () => {
+      expect(string()("hello")).toEqual(ok("hello"));
+      expect(string()(42)).toEqual(err({ path: [], message: "expected string, received number" }));
+    });
+
+    test("number rejects NaN", () => {
+      expect(number()(42)).toEqual(ok(42));
+      expect(number()(Number.NaN)).toEqual(err({ path: [], message: "expected number, received NaN" }));
+      expect(number()("42")).toEqual(err({ path: [], message: "expected number, received string" }));
+    });
+
+    test("boolean accepts booleans only", () => {
+      expect(boolean()(false)).toEqual(ok(false));
+      expect(boolean()(null)).toEqual(err({ path: [], message: "expected boolean, received null" }));
+    });
+
+    test("literal accepts exactly the given values", () => {
+      const role = literal("admin", "user");
+
+      expect(role("admin")).toEqual(ok("admin"));
+      expect(role("root")).toEqual(err({ path: [], message: 'expected "admin" | "user", received "root"' }));
+      expect(role({})).toEqual(err({ path: [], message: 'expected "admin" | "user", received object' }));
+    });
+  });
+
+  describe("object", () => {
+    const user = object({ name: string(), age: number() });
+
+    test("decodes known fields and drops unknown ones", () => {
+      expect(user({ name: "Alice", age: 30, admin: true })).toEqual(ok({ name: "Alice", age: 30 }));
+    });
+
+    test("adds the failing key to the error path", () => {
+      expect(user({ name: "Alice", age: "30" })).toEqual(
+        err({ path: ["age"], message: "expected number, received string" }),
+      );
+      expect(user({ name: "Alice" })).toEqual(err({ path: ["age"], message: "expected number, received undefined" }));
+    });
+
+    test("rejects non-objects", () => {
+      expect(user(null)).toEqual(err({ path: [], message: "expected object, received null" }));
+      expect(user([])).toEqual(err({ path: [], message: "expected object, received array" }));
+    });
+
+    test("does not read inherited properties", () => {
+      const decoder = object({ constructor: string() });
+
+      expect(isErr(decoder({}))).toBe(true);
+    });
+  });
+
+  describe("array", () => {
+    test("decodes every item", () => {
+      expect(array(string())(["a", "b"])).toEqual(ok(["a", "b"]));
+    });
+
+    test("adds the failing index to the error path", () => {
+      expect(array(string())(["a", 2])).toEqual(err({ path: [1], message: "expected string, received number" }));
+    });
+
+    test("builds nested paths", () => {
+      const decoder = object({ user: object({ tags: array(string()) }) });
+      const result = decoder({ user: { tags: ["a", "b", 3] } });
+
+      expect(result).toEqual(err({ path: ["user", "tags", 2], message: "expected string, received number" }));
+    });
+  });
+
+  describe("union", () => {
+    const id = union(string(), number());
+
+    test("returns the first matching decoder's result", () => {
+      expect(id("abc")).toEqual(ok("abc"));
+      expect(id(42)).toEqual(ok(42));
+    });
+
+    test("reports every candidate's failure", () => {
+      expect(id(true)).toEqual(
+        err({
+          path: [],
+          message: "expected one of: (expected string, received boolean) | (expected number, received boolean)",
+        }),
+      );
+    });
+  });
+
+  describe("optional", () => {
+    const nickname = optional(string());
+
+    test("decodes undefined to None", () => {
+      expect(nickname(undefined)).toEqual(ok(none()));
+    });
+
+    test("wraps present values in Some", () => {
+      expect(nickname("Al")).toEqual(ok(some("Al")));
+    });
+
+    test("fails on present values of the wrong type", () => {
+      expect(nickname(42)).toEqual(err({ path: [], message: "expected string, received number" }));
+    });
+
+    test("treats absent object keys as None", () => {
+      const user = object({ name: string(), nickname });
+
+      expect(user({ name: "Alice" })).toEqual(ok({ name: "Alice", nickname: none() }));
+    });
+  });
+
+  describe("refine", () => {
+    test("applies the predicate after decoding", () => {
+      const age = refine(number(), (n) => Number.isInteger(n) && n >= 0, "expected a non-negative integer");
+
+      expect(age(30)).toEqual(ok(30));
+      expect(age(-1)).toEqual(err({ path: [], message: "expected a non-negative integer" }));
+      expect(age("30")).toEqual(err({ path: [], message: "expected number, received string" }));
+    });
+
+    test("narrows the type with a type guard", () => {
+      type Email = `${string}@${string}`;
+      const email: Decoder<Email> = refine(string(), (s): s is Email => s.includes("@"), "expected an email");
+
+      expect(email("a@b.c")).toEqual(ok("a@b.c"));
+      expect(isErr(email("abc"))).toBe(true);
+    });
+  });
+
+  describe("formatDecodeError", () => {
+    test("renders keys and indexes", () => {
+      expect(formatDecodeError({ path: ["user", "tags", 2], message: "expected string, received number" })).toBe(
+        "user.tags[2]: expected string, received number",
+      );
+      expect(formatDecodeError({ path: [0, "name"], message: "boom" })).toBe("[0].name: boom");
+    });
+
+    test("omits the path at the root", () => {
+      expect(formatDecodeError({ path: [], message: "boom" })).toBe("boom");
+    });
+  });
+
+  describe("composition", () => {
+    test("infers the decoded type", () => {
+      const user = object({ name: string(), role: literal("admin", "user"), tags: array(string()) });
+      type User = Infer<typeof user>;
+
+      const result: Result<User, unknown> = user({ name: "Alice", role: "admin", tags: [] });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        const role: "admin" | "user" = result.value.role;
+        expect(role).toBe("admin");
+      }
+    });
+
+    test("composes with Result pipelines", () => {
+      const result = pipe(
+        ok('{"name":"Alice"}'),
+        map((body) => JSON.parse(body) as unknown),
+        flatMap(object({ name: string() })),
+        map((user) => user.name),
+      );
+
+      expect(result).toEqual(ok("Alice"));
+    });
+
+    test("is exposed from the root entry as the D namespace", () => {
+      expect(D.array(D.number())([1, 2])).toEqual(ok([1, 2]));
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, test, expect } from "bun:test";
+
+import { type StandardSchema, type StandardSchemaIssue, fromStandardSchema, fromStandardSchemaAsync } from "@/decoder";
+import { D } from "@/index";
+import { type Result, ok, err, isOk } from "@/result";
+
+type User = { name: string; age: number };
+
+// A minimal hand-rolled validator implementing the Standard Schema interface
+const userSchema: StandardSchema<unknown, User> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const input = value as Partial<Record<keyof User, unknown>>;
+      const issues: StandardSchemaIssue[] = [];
+      if (typeof input.name !== "string") issues.push({ message: "expected string", path: ["name"] });
+      if (typeof input.age !== "number") issues.push({ message: "expected number", path: [{ key: "age" }] });
+      return issues.length > 0 ? { issues } : { value: { name: input.name as string, age: input.age as number } };
+    },
+  },
+};
+
+const asyncSchema: StandardSchema<unknown, string> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: async (value) =>
+      typeof value === "string" && value.length > 0 ? { value } : { issues: [{ message: "expected a username" }] },
+  },
+};
+
+describe("Standard Schema interop", () => {
+  describe("fromStandardSchema", () => {
+    const parseUser = fromStandardSchema(userSchema);
+
+    test("returns Ok with the schema's output", () => {
+      const result: Result<User, readonly StandardSchemaIssue[]> = parseUser({ name: "Alice", age: 30 });
+
+      expect(result).toEqual(ok({ name: "Alice", age: 30 }));
+    });
+
+    test("returns Err with every issue", () => {
+      expect(parseUser({})).toEqual(
+        err([
+          { message: "expected string", path: ["name"] },
+          { message: "expected number", path: [{ key: "age" }] },
+        ]),
+      );
+    });
+
+    test("throws for asynchronous schemas", () => {
+      expect(() => fromStandardSchema(asyncSchema)("alice")).toThrow(TypeError);
+    });
+
+    test("throws for schemas returning a non-native thenable, handling its rejection", () => {
+      const handlers: unknown[] = [];
+      const thenable = {
+        // eslint-disable-next-line unicorn/no-thenable -- a thenable is what this test needs
+        then: (_onFulfilled: unknown, onRejected: unknown) => handlers.push(onRejected),
+      };
+      const thenableSchema = {
+        "~standard": { version: 1, vendor: "test", validate: () => thenable },
+      } as unknown as StandardSchema<unknown, string>;
+
+      expect(() => fromStandardSchema(thenableSchema)("alice")).toThrow(TypeError);
+      expect(handlers).toEqual([expect.any(Function)]);
+    });
+
+    test("is exposed from the root entry in the D namespace", () => {
+      expect(isOk(D.fromStandardSchema(userSchema)({ name: "Alice", age: 30 }))).toBe(true);
+    });
+  });
+
+  describe("fromStandardSchemaAsync", () => {
+    test("awaits asynchronous schemas", async () => {
+      const parseUsername = fromStandardSchemaAsync(asyncSchema);
+
+      expect(await parseUsername("alice")).toEqual(ok("alice"));
+      expect(await parseUsername("")).toEqual(err([{ message: "expected a username" }]));
+    });
+
+    test("accepts synchronous schemas", async () => {
+      expect(await fromStandardSchemaAsync(userSchema)({ name: "Alice", age: 30 })).toEqual(
+        ok({ name: "Alice", age: 30 }),
+      );
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, test, expect } from "bun:test";
+
+import { O } from "@/fluent";
+import { some, none, fromNullable, isOption } from "@/option";
+import { err, ok } from "@/result";
+
+describe("O", () => {
+  test("chains map, flatMap, filter and unwrapOr on a Some", () => {
+    const port = O(fromNullable<string>("8080"))
+      .map(Number)
+      .filter((n) => Number.isInteger(n))
+      .flatMap((n) => (n > 0 ? some(n) : none()))
+      .unwrapOr(3000);
+
+    expect(port).toBe(8080);
+  });
+
+  test("skips the value steps on a None", () => {
+    let called = false;
+
+    const value = O(none<number>())
+      .map((n) => {
+        called = true;
+        return n;
+      })
+      .unwrapOr(0);
+
+    expect(called).toBe(false);
+    expect(value).toBe(0);
+  });
+
+  test("exposes a plain Option that the core functions accept", () => {
+    const { option } = O(some(1)).map((n) => n + 1);
+
+    expect(isOption(option)).toBe(true);
+    expect(option).toEqual(some(2));
+  });
+
+  test("tap, or and orElse delegate to the core", () => {
+    const seen: number[] = [];
+
+    O(some(1)).tap((n) => seen.push(n));
+
+    expect(seen).toEqual([1]);
+    expect(O(none<number>()).or(some(2)).option).toEqual(some(2));
+    expect(O(none<number>()).orElse(() => some(3)).option).toEqual(some(3));
+  });
+
+  test("terminal methods match, unwrap, unwrapOrElse and toResult", () => {
+    expect(O(some(1)).match({ some: (n) => `some ${n}`, none: () => "none" })).toBe("some 1");
+    expect(O(some(1)).unwrap()).toBe(1);
+    expect(() => O(none()).unwrap("no value")).toThrow("no value");
+    expect(O(none<number>()).unwrapOrElse(() => 7)).toBe(7);
+    expect(O(some(1)).toResult("missing")).toEqual(ok(1));
+    expect(O(none<number>()).toResult("missing")).toEqual(err("missing"));
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, test, expect } from "bun:test";
+
+import { R, ResultChain, AsyncResultChain } from "@/fluent";
+import { isNone, isSome } from "@/option";
+import { type Result, ok, err, isResult } from "@/result";
+
+const parse = (input: string): Result<number, string> => {
+  const n = Number(input);
+  return Number.isNaN(n) ? err(`not a number: ${input}`) : ok(n);
+};
+
+const delay = <T>(value: T): Promise<T> => new Promise((resolve) => setTimeout(() => resolve(value), 1));
+
+describe("R", () => {
+  test("chains map, flatMap, mapErr and unwrapOr on an Ok", () => {
+    const value = R(ok(2))
+      .map((n) => n * 10)
+      .flatMap((n) => (n > 10 ? ok(n + 1) : err("too small")))
+      .mapErr((error) => `failed: ${error}`)
+      .unwrapOr(0);
+
+    expect(value).toBe(21);
+  });
+
+  test("skips the value steps on an Err and maps the error", () => {
+    const chain = R(parse("abc"))
+      .map((n) => n * 10)
+      .mapErr((error) => error.toUpperCase());
+
+    expect(chain.result).toEqual(err("NOT A NUMBER: ABC"));
+    expect(chain.unwrapOr(-1)).toBe(-1);
+  });
+
+  test("exposes a plain Result that the core functions accept", () => {
+    const { result } = R(ok(1)).map((n) => n + 1);
+
+    expect(isResult(result)).toBe(true);
+    expect(result).toEqual(ok(2));
+  });
+
+  test("filter, tap, tapErr, orElse and recover delegate to the core", () => {
+    const seen: unknown[] = [];
+
+    const filtered = R(parse("3"))
+      .tap((n) => seen.push(n))
+      // eslint-disable-next-line unicorn/no-array-method-this-argument -- the second argument is the Err, not a thisArg
+      .filter((n) => n > 5, "too small")
+      .tapErr((error) => seen.push(error));
+    const rescued = filtered.orElse((error) => (error === "too small" ? ok(5) : err(error)));
+    const recovered = R(parse("boom")).recover((error) => error.length);
+
+    expect(seen).toEqual([3, "too small"]);
+    expect(rescued.result).toEqual(ok(5));
+    expect(recovered.result).toEqual(ok(18));
+  });
+
+  test("terminal methods match, unwrap, unwrapOrElse and toOption", () => {
+    expect(R(ok(1)).match({ ok: (n) => `ok ${n}`, err: (error) => `err ${error}` })).toBe("ok 1");
+    expect(R(ok(1)).unwrap()).toBe(1);
+    expect(() => R(err("boom")).unwrap("no value")).toThrow("no value");
+    expect(R(parse("boom")).unwrapOrElse(() => 7)).toBe(7);
+    expect(isSome(R(ok(1)).toOption())).toBe(true);
+    expect(isNone(R(err("boom")).toOption())).toBe(true);
+  });
+
+  test("wraps a Result in a ResultChain and a Promise in an AsyncResultChain", () => {
+    expect(R(ok(1))).toBeInstanceOf(ResultChain);
+    expect(R(Promise.resolve(ok(1)))).toBeInstanceOf(AsyncResultChain);
+  });
+});
+
+describe("AsyncResultChain", () => {
+  test("awaits each step before running the next", async () => {
+    const order: string[] = [];
+
+    const result = await R(delay(ok(1)))
+      .map(async (n) => {
+        order.push("map");
+        return delay(n + 1);
+      })
+      .flatMap(async (n) => {
+        order.push(`flatMap ${n}`);
+        return delay(ok(n * 10));
+      })
+      .tap(async (n) => {
+        order.push(`tap ${n}`);
+      });
+
+    expect(order).toEqual(["map", "flatMap 2", "tap 20"]);
+    expect(result).toEqual(ok(20));
+  });
+
+  test("continues a sync chain with mapAsync and flatMapAsync", async () => {
+    const result = await R(ok(2))
+      .mapAsync(async (n) => n + 1)
+      .flatMap((n) => (n > 5 ? ok(n) : err("too small")))
+      .mapErr(async (error) => `failed: ${error}`);
+
+    expect(result).toEqual(err("failed: too small"));
+    expect(await R(ok(2)).flatMapAsync((n) => delay(ok(n * 2))).result).toEqual(ok(4));
+  });
+
+  test("short-circuits on an Err without calling later steps", async () => {
+    let called = false;
+
+    const value = await R(delay(parse("abc")))
+      .map((n) => {
+        called = true;
+        return n;
+      })
+      .unwrapOr(0);
+
+    expect(called).toBe(false);
+    expect(value).toBe(0);
+  });
+
+  test("match resolves with the branch result", async () => {
+    const message = await R(delay(ok(3))).match({ ok: async (n) => `ok ${n}`, err: (error) => `err ${error}` });
+
+    expect(message).toBe("ok 3");
+  });
+
+  test("treats any thenable as asynchronous", async () => {
+    const thenable: PromiseLike<Result<number, string>> = {
+      // eslint-disable-next-line unicorn/no-thenable -- a non-native PromiseLike, as from another realm
+      then: (onFulfilled, onRejected) => delay(ok(2)).then(onFulfilled, onRejected),
+    };
+
+    const chain = R(thenable).map((n) => n * 2);
+
+    expect(chain).toBeInstanceOf(AsyncResultChain);
+    expect(await chain).toEqual(ok(4));
+  });
+
+  test("passes rejections of the underlying Promise through", async () => {
+    const chain = R(Promise.reject<Result<number, string>>(new Error("network down"))).map((n) => n + 1);
+
+    await expect(chain.then(() => "resolved")).rejects.toThrow("network down");
+    await expect(chain.result).rejects.toThrow("network down");
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, test, expect } from "bun:test";
+
+import { type Either, type FpTsOption, fromEither, toEither, fromFpTsOption, toFpTsOption } from "@/interop";
+import { some, none, isOption } from "@/option";
+import { ok, err, isResult } from "@/result";
+
+// Hand-built values with the shape fp-ts uses for its data types
+const right = <A>(value: A): Either<never, A> => ({ _tag: "Right", right: value });
+const left = <E>(error: E): Either<E, never> => ({ _tag: "Left", left: error });
+const fpSome = <A>(value: A): FpTsOption<A> => ({ _tag: "Some", value });
+const fpNone: FpTsOption<never> = { _tag: "None" };
+
+describe("fromEither", () => {
+  test("converts a Right into an Ok", () => {
+    const result = fromEither(right(42));
+
+    expect(isResult(result)).toBe(true);
+    expect(result).toEqual(ok(42));
+  });
+
+  test("converts a Left into an Err", () => {
+    expect(fromEither(left("boom"))).toEqual(err("boom"));
+  });
+});
+
+describe("toEither", () => {
+  test("converts an Ok into a Right and an Err into a Left", () => {
+    expect(toEither(ok(42))).toEqual({ _tag: "Right", right: 42 });
+    expect(toEither(err("boom"))).toEqual({ _tag: "Left", left: "boom" });
+  });
+
+  test("builds plain objects without Result internals", () => {
+    expect(Object.keys(toEither(ok(1)))).toEqual(["_tag", "right"]);
+  });
+
+  test("round-trips through fromEither", () => {
+    expect(fromEither(toEither(ok(1)))).toEqual(ok(1));
+    expect(toEither(fromEither(left("boom")))).toEqual(left("boom"));
+  });
+});
+
+describe("fromFpTsOption", () => {
+  test("converts Some and None", () => {
+    const option = fromFpTsOption(fpSome(42));
+
+    expect(isOption(option)).toBe(true);
+    expect(option).toEqual(some(42));
+    expect(fromFpTsOption(fpNone)).toEqual(none());
+  });
+});
+
+describe("toFpTsOption", () => {
+  test("converts Some and None", () => {
+    expect(toFpTsOption(some(42))).toEqual({ _tag: "Some", value: 42 });
+    expect(toFpTsOption(none())).toEqual({ _tag: "None" });
+  });
+
+  test("round-trips through fromFpTsOption", () => {
+    expect(fromFpTsOption(toFpTsOption(some("a")))).toEqual(some("a"));
+    expect(toFpTsOption(fromFpTsOption(fpNone))).toEqual(fpNone);
+  });
+});
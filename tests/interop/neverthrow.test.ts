@@ -0,0 +1,91 @@
+import { describe, test, expect } from "bun:test";
+
+import { fromNeverthrow, toNeverthrow } from "@/interop";
+import { ok, err, isResult, map } from "@/result";
+
+// Hand-built stand-ins with the shape of neverthrow's Ok and Err classes
+class NtOk<T, E> {
+  constructor(readonly value: T) {}
+  isOk(): this is NtOk<T, E> {
+    return true;
+  }
+  isErr(): this is NtErr<T, E> {
+    return false;
+  }
+  map<U>(fn: (value: T) => U): NtOk<U, E> {
+    return new NtOk(fn(this.value));
+  }
+}
+
+class NtErr<T, E> {
+  constructor(readonly error: E) {}
+  isOk(): this is NtOk<T, E> {
+    return false;
+  }
+  isErr(): this is NtErr<T, E> {
+    return true;
+  }
+  map<U>(): NtErr<U, E> {
+    return new NtErr(this.error);
+  }
+}
+
+type NtResult<T, E> = NtOk<T, E> | NtErr<T, E>;
+
+const ntOk = <T, E = never>(value: T): NtResult<T, E> => new NtOk(value);
+const ntErr = <T = never, E = unknown>(error: E): NtResult<T, E> => new NtErr(error);
+
+describe("fromNeverthrow", () => {
+  test("converts an Ok into an Ok", () => {
+    const result = fromNeverthrow(ntOk<number, string>(42));
+
+    expect(isResult(result)).toBe(true);
+    expect(result).toEqual(ok(42));
+  });
+
+  test("converts an Err into an Err", () => {
+    expect(fromNeverthrow(ntErr<number, string>("boom"))).toEqual(err("boom"));
+  });
+
+  test("goes by isOk() rather than which property is present", () => {
+    const okWithUndefined = { isOk: () => true, isErr: () => false, value: undefined };
+
+    expect(fromNeverthrow(okWithUndefined)).toEqual(ok(undefined));
+  });
+
+  test("the result works with the core functions", () => {
+    expect(map(fromNeverthrow(ntOk<number, string>(2)), (n) => n * 2)).toEqual(ok(4));
+  });
+});
+
+describe("toNeverthrow", () => {
+  test("builds plain neverthrow-shaped objects without constructors", () => {
+    const okShape = toNeverthrow(ok(42));
+    const errShape = toNeverthrow(err("boom"));
+
+    expect(okShape.isOk()).toBe(true);
+    expect(okShape.isErr()).toBe(false);
+    expect(okShape).toHaveProperty("value", 42);
+    expect(errShape.isOk()).toBe(false);
+    expect(errShape.isErr()).toBe(true);
+    expect(errShape).toHaveProperty("error", "boom");
+  });
+
+  test("builds library instances with the given constructors", () => {
+    const constructors = { ok: ntOk<number, string>, err: ntErr<number, string> };
+
+    const converted = toNeverthrow(ok(21), constructors);
+    const failed = toNeverthrow(err("boom"), constructors);
+
+    expect(converted).toBeInstanceOf(NtOk);
+    expect(converted.map((n) => n * 2)).toEqual(new NtOk(42));
+    expect(failed).toBeInstanceOf(NtErr);
+    expect(failed).toHaveProperty("error", "boom");
+  });
+
+  test("round-trips through fromNeverthrow", () => {
+    expect(fromNeverthrow(toNeverthrow(ok(1)))).toEqual(ok(1));
+    expect(fromNeverthrow(toNeverthrow(err("boom")))).toEqual(err("boom"));
+    expect(fromNeverthrow(toNeverthrow(ok(1), { ok: ntOk, err: ntErr }))).toEqual(ok(1));
+  });
+});
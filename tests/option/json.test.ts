@@ -0,0 +1,38 @@
+import { describe, test, expect } from "bun:test";
+
+import { D } from "@/index";
+import { some, none, toJSON, fromJSON } from "@/option";
+import { ok, err } from "@/result";
+
+describe("Option JSON codec", () => {
+  test("toJSON encodes Some and None in the tagged wire format", () => {
+    expect(toJSON(some(42))).toEqual({ _tag: "Some", value: 42 });
+    expect(toJSON(none())).toEqual({ _tag: "None" });
+  });
+
+  test("toJSON applies the given encoder", () => {
+    expect(toJSON(some(new Set([1, 2])), (set) => [...set])).toEqual({ _tag: "Some", value: [1, 2] });
+  });
+
+  test("fromJSON round-trips through JSON.stringify", () => {
+    const someJson = JSON.stringify(toJSON(some({ name: "Alice" })));
+    const noneJson = JSON.stringify(toJSON(none()));
+
+    expect(fromJSON(JSON.parse(someJson))).toEqual(ok(some({ name: "Alice" })));
+    expect(fromJSON(JSON.parse(noneJson))).toEqual(ok(none()));
+  });
+
+  test("fromJSON validates the value with the given decoder", () => {
+    expect(fromJSON({ _tag: "Some", value: "Alice" }, D.string())).toEqual(ok(some("Alice")));
+    expect(fromJSON({ _tag: "Some", value: 1 }, D.string())).toEqual(
+      err({ path: ["value"], message: "expected string, received number" }),
+    );
+  });
+
+  test("fromJSON rejects input that is not an Option", () => {
+    expect(fromJSON(undefined)).toEqual(err({ path: [], message: "expected object, received undefined" }));
+    expect(fromJSON({ _tag: "Maybe" })).toEqual(
+      err({ path: ["_tag"], message: 'expected "Some" | "None", received "Maybe"' }),
+    );
+  });
+});
@@ -6,17 +6,26 @@ import {
   none,
   isSome,
   isNone,
+  isOption,
+  reviveOption,
   map,
   flatMap,
   filter,
   unwrap,
   unwrapOr,
   unwrapOrElse,
+  or,
+  orElse,
   combine,
+  combineObject,
   match,
   tap,
+  equals,
+  compare,
   mapToResult,
   fromNullable,
+  gen,
+  genAsync,
 } from "@/option";
 import { isOk, isErr } from "@/result";
 
@@ -122,6 +131,55 @@ describe("Option", () => {
     });
   });
 
+  describe("isOption and reviveOption", () => {
+    test("isOption recognizes Options only", () => {
+      expect(isOption(some(1))).toBe(true);
+      expect(isOption(none())).toBe(true);
+      expect(isOption({ some: true, value: 1 })).toBe(false);
+      expect(isOption(null)).toBe(false);
+      expect(isOption("some")).toBe(false);
+    });
+
+    test("isOption recognizes Options branded by another copy of the library", () => {
+      const foreign = { some: false, [Symbol.for("@railway-ts/core/OPTION_BRAND")]: "none" };
+
+      expect(isOption(foreign)).toBe(true);
+    });
+
+    test("reviveOption rebuilds cloned Options", () => {
+      const revived = reviveOption<number>(structuredClone(some(42)));
+
+      expect(revived).toEqual(some(42));
+      expect(isOption(revived)).toBe(true);
+      const json = JSON.stringify(none());
+      expect(reviveOption(JSON.parse(json))).toEqual(none());
+    });
+
+    test("reviveOption returns Options unchanged", () => {
+      const option = some(1);
+
+      expect(reviveOption(option)).toBe(option);
+    });
+
+    test("reviveOption rejects other shapes", () => {
+      expect(reviveOption({ some: true })).toBeUndefined();
+      expect(reviveOption({ some: false, value: 1 })).toBeUndefined();
+      expect(reviveOption({ some: true, value: 1, extra: 2 })).toBeUndefined();
+      expect(reviveOption(42)).toBeUndefined();
+    });
+
+    test("revived Options support every combinator", () => {
+      const revived = reviveOption<number>({ some: true, value: 2 });
+
+      expect(revived && map(revived, (n) => n * 2)).toEqual(some(4));
+      expect(
+        gen(function* () {
+          return (yield* revived ?? none<number>()) + 1;
+        }),
+      ).toEqual(some(3));
+    });
+  });
+
   describe("map function", () => {
     test("maps Some variant", () => {
       const option = some(42);
@@ -273,6 +331,34 @@ describe("Option", () => {
     });
   });
 
+  describe("or function", () => {
+    test("returns the Option when it is Some", () => {
+      expect(or(some(1), some(2))).toEqual(some(1));
+    });
+
+    test("returns the alternative when the Option is None", () => {
+      expect(or(none<number>(), some(2))).toEqual(some(2));
+      expect(isNone(or(none(), none()))).toBe(true);
+    });
+  });
+
+  describe("orElse function", () => {
+    test("does not call the function for Some", () => {
+      let called = false;
+      const option = orElse(some(1), () => {
+        called = true;
+        return some(2);
+      });
+
+      expect(option).toEqual(some(1));
+      expect(called).toBe(false);
+    });
+
+    test("computes the alternative for None", () => {
+      expect(orElse(none<number>(), () => some(2))).toEqual(some(2));
+    });
+  });
+
   describe("combine function", () => {
     test("combines array of Some options", () => {
       const options = [some(1), some(2), some(3)];
@@ -302,6 +388,27 @@ describe("Option", () => {
     });
   });
 
+  describe("combineObject function", () => {
+    test("combines a record of Some values", () => {
+      const combined: Option<{ host: string; port: number }> = combineObject({
+        host: some("localhost"),
+        port: some(8080),
+      });
+
+      expect(combined).toEqual(some({ host: "localhost", port: 8080 }));
+    });
+
+    test("returns None if any value is None", () => {
+      const combined = combineObject({ host: some("localhost"), port: none<number>() });
+
+      expect(isNone(combined)).toBe(true);
+    });
+
+    test("returns some({}) for an empty record", () => {
+      expect(combineObject({})).toEqual(some({}));
+    });
+  });
+
   describe("match function", () => {
     test("matches Some variant", () => {
       const option = some(42);
@@ -334,6 +441,43 @@ describe("Option", () => {
     });
   });
 
+  describe("equals function", () => {
+    test("compares Somes deeply by default", () => {
+      expect(equals(some({ at: new Date(0) }), some({ at: new Date(0) }))).toBe(true);
+      expect(equals(some([1, 2]), some([2, 1]))).toBe(false);
+    });
+
+    test("treats None as equal only to None", () => {
+      expect(equals(none(), none())).toBe(true);
+      expect(equals(some(undefined), none())).toBe(false);
+      expect(equals(none(), some(undefined))).toBe(false);
+    });
+
+    test("uses the given comparison", () => {
+      const ignoreCase = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+      expect(equals(some("Alice"), some("alice"), { value: ignoreCase })).toBe(true);
+    });
+  });
+
+  describe("compare function", () => {
+    test("orders None before Some, then by value", () => {
+      const options: Option<string>[] = [some("b"), none(), some("a"), none()];
+
+      expect(options.toSorted(compare)).toEqual([none(), none(), some("a"), some("b")]);
+    });
+
+    test("uses the given order", () => {
+      const options = [some({ age: 40 }), some({ age: 20 }), none<{ age: number }>()];
+
+      expect(options.toSorted((a, b) => compare(a, b, { value: (x, y) => x.age - y.age }))).toEqual([
+        none(),
+        some({ age: 20 }),
+        some({ age: 40 }),
+      ]);
+    });
+  });
+
   describe("tap function", () => {
     test("executes function for Some without changing the Option", () => {
       const option = some(42);
@@ -425,6 +569,97 @@ describe("Option", () => {
     });
   });
 
+  describe("gen function", () => {
+    const config: Record<string, string | undefined> = { host: "localhost", port: "8080" };
+    const lookup = (key: string): Option<string> => fromNullable(config[key]);
+
+    test("unwraps Some values with yield*", () => {
+      const address: Option<string> = gen(function* () {
+        const host = yield* lookup("host");
+        const port = yield* lookup("port");
+        return `${host}:${port}`;
+      });
+
+      expect(address).toEqual(some("localhost:8080"));
+    });
+
+    test("short-circuits to None on the first missing value", () => {
+      let reachedEnd = false;
+      const address = gen(function* () {
+        const host = yield* lookup("host");
+        const user = yield* lookup("user");
+        reachedEnd = true;
+        return `${user}@${host}`;
+      });
+
+      expect(reachedEnd).toBe(false);
+      expect(isNone(address)).toBe(true);
+    });
+
+    test("runs finally blocks when stopped early", () => {
+      const cleanup: string[] = [];
+      const result = gen(function* () {
+        try {
+          return yield* none<number>();
+        } finally {
+          cleanup.push("closed");
+        }
+      });
+
+      expect(cleanup).toEqual(["closed"]);
+      expect(isNone(result)).toBe(true);
+    });
+
+    test("matches combine semantics", () => {
+      const cases: Option<number>[][] = [[], [some(1), some(2), some(3)], [some(1), none(), some(3)], [none(), none()]];
+
+      for (const options of cases) {
+        const viaGen = gen(function* () {
+          const values: number[] = [];
+          for (const option of options) {
+            values.push(yield* option);
+          }
+          return values;
+        });
+
+        expect(viaGen).toEqual(combine(options));
+      }
+    });
+  });
+
+  describe("genAsync function", () => {
+    type User = { id: number; name: string; managerId?: number };
+    const users: Record<number, User> = {
+      1: { id: 1, name: "Alice", managerId: 2 },
+      2: { id: 2, name: "Bob" },
+    };
+    const findUser = async (id: number | undefined): Promise<Option<User>> =>
+      id === undefined ? none() : fromNullable(users[id]);
+
+    test("unwraps awaited Options with yield*", async () => {
+      const managerName = await genAsync(async function* () {
+        const user = yield* await findUser(1);
+        const manager = yield* await findUser(user.managerId);
+        return manager.name;
+      });
+
+      expect(managerName).toEqual(some("Bob"));
+    });
+
+    test("returns None when a later lookup is missing", async () => {
+      let lookedUpManager = false;
+      const managerName = await genAsync(async function* () {
+        const user = yield* await findUser(2);
+        lookedUpManager = true;
+        const manager = yield* await findUser(user.managerId);
+        return manager.name;
+      });
+
+      expect(lookedUpManager).toBe(true);
+      expect(isNone(managerName)).toBe(true);
+    });
+  });
+
   describe("Option composition", () => {
     test("can compose multiple operations", () => {
       const startOption = some(42);
@@ -0,0 +1,179 @@
+import { describe, test, expect } from "bun:test";
+
+import { O } from "@/index";
+import { type Option, some, none, isSome, isNone, fromNullable } from "@/option";
+import {
+  map,
+  flatMap,
+  filter,
+  unwrap,
+  unwrapOr,
+  unwrapOrElse,
+  or,
+  orElse,
+  match,
+  tap,
+  mapToResult,
+} from "@/option/pipeable";
+import { isErr, isOk } from "@/result";
+import { flow, pipe } from "@/utils";
+
+describe("Option pipeable", () => {
+  describe("map", () => {
+    test("maps Some variant inside pipe", () => {
+      const option = pipe(
+        some(21),
+        map((n) => n * 2),
+      );
+
+      expect(isSome(option)).toBe(true);
+      if (isSome(option)) {
+        expect(option.value).toBe(42);
+      }
+    });
+
+    test("preserves None variant", () => {
+      const option = pipe(
+        none<number>(),
+        map((n) => n * 2),
+      );
+
+      expect(isNone(option)).toBe(true);
+    });
+  });
+
+  describe("flatMap", () => {
+    test("chains Option-returning functions", () => {
+      const head = <T>(xs: T[]): Option<T> => fromNullable(xs[0]);
+
+      const found = pipe(some([1, 2, 3]), flatMap(head));
+      const empty = pipe(some([] as number[]), flatMap(head));
+
+      expect(isSome(found)).toBe(true);
+      if (isSome(found)) {
+        expect(found.value).toBe(1);
+      }
+      expect(isNone(empty)).toBe(true);
+    });
+  });
+
+  describe("filter", () => {
+    test("keeps values that pass the predicate", () => {
+      const kept = pipe(
+        some(42),
+        filter((n) => n > 40),
+      );
+      const dropped = pipe(
+        some(5),
+        filter((n) => n > 40),
+      );
+
+      expect(isSome(kept)).toBe(true);
+      expect(isNone(dropped)).toBe(true);
+    });
+  });
+
+  describe("unwrap helpers", () => {
+    test("unwrap returns the value or throws", () => {
+      expect(pipe(some(42), unwrap())).toBe(42);
+      expect(() => pipe(none(), unwrap("custom"))).toThrow("custom");
+    });
+
+    test("unwrapOr returns the default for None", () => {
+      expect(pipe(some(42), unwrapOr(0))).toBe(42);
+      expect(pipe(none<number>(), unwrapOr(0))).toBe(0);
+    });
+
+    test("unwrapOrElse computes the default lazily", () => {
+      let calls = 0;
+      const fallback = () => {
+        calls++;
+        return 0;
+      };
+
+      expect(pipe(some(42), unwrapOrElse(fallback))).toBe(42);
+      expect(calls).toBe(0);
+      expect(pipe(none<number>(), unwrapOrElse(fallback))).toBe(0);
+      expect(calls).toBe(1);
+    });
+  });
+
+  describe("or and orElse", () => {
+    test("fall back to an alternative Option", () => {
+      expect(pipe(fromNullable<string>(undefined), or(some("default")))).toEqual(some("default"));
+      expect(
+        pipe(
+          some("set"),
+          orElse(() => some("default")),
+        ),
+      ).toEqual(some("set"));
+    });
+  });
+
+  describe("match", () => {
+    test("handles both variants", () => {
+      const render = match<number, string>({
+        some: (value) => `some: ${value}`,
+        none: () => "none",
+      });
+
+      expect(pipe(some(42), render)).toBe("some: 42");
+      expect(pipe(none<number>(), render)).toBe("none");
+    });
+  });
+
+  describe("tap", () => {
+    test("runs only for Some", () => {
+      const seen: number[] = [];
+      pipe(
+        some(1),
+        tap((n) => seen.push(n)),
+      );
+      pipe(
+        none<number>(),
+        tap((n) => seen.push(n)),
+      );
+
+      expect(seen).toEqual([1]);
+    });
+  });
+
+  describe("mapToResult", () => {
+    test("converts Some to Ok and None to Err", () => {
+      const okResult = pipe(some(1), mapToResult("missing"));
+      const errResult = pipe(none<number>(), mapToResult("missing"));
+
+      expect(isOk(okResult)).toBe(true);
+      expect(isErr(errResult)).toBe(true);
+      if (isErr(errResult)) {
+        expect(errResult.error).toBe("missing");
+      }
+    });
+  });
+
+  describe("composition", () => {
+    test("builds reusable pipelines with flow", () => {
+      const parseAge = flow(
+        (input: string | null | undefined) => fromNullable(input),
+        map((s) => s.trim()),
+        map(Number),
+        filter((n) => Number.isFinite(n) && n >= 0),
+        unwrapOr(-1),
+      );
+
+      expect(parseAge(" 42 ")).toBe(42);
+      expect(parseAge("abc")).toBe(-1);
+      expect(parseAge(null)).toBe(-1);
+    });
+
+    test("is exposed from the root entry as the O namespace", () => {
+      const value = pipe(
+        some(2),
+        O.map((n) => n + 1),
+        O.unwrapOr(0),
+      );
+
+      expect(value).toBe(3);
+    });
+  });
+});
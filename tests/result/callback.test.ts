@@ -0,0 +1,156 @@
+import { randomBytes } from "node:crypto";
+import { readFile } from "node:fs";
+
+import { describe, test, expect } from "bun:test";
+
+import { type NodeCallback, type Result, ok, err, fromNodeCallback, toNodeCallback } from "@/result";
+
+const divide = (a: number, b: number, callback: (error: Error | null, value?: number) => void): void => {
+  setTimeout(() => (b === 0 ? callback(new Error("division by zero")) : callback(null, a / b)), 1);
+};
+
+const parse = (input: string): Result<number, string> => {
+  const n = Number(input);
+  return Number.isNaN(n) ? err(`not a number: ${input}`) : ok(n);
+};
+
+/** Calls a callback-last function and resolves with the arguments its callback received. */
+const collect = <T, E>(call: (callback: NodeCallback<T, E>) => void): Promise<unknown[]> =>
+  new Promise((resolve) => call((...args) => resolve(args)));
+
+describe("fromNodeCallback", () => {
+  test("resolves with an Ok when the callback gets a null error", async () => {
+    const divideResult = fromNodeCallback(divide);
+
+    expect(await divideResult(6, 3)).toEqual(ok(2));
+  });
+
+  test("resolves with an Err when the callback gets an error", async () => {
+    const result = await fromNodeCallback(divide)(1, 0);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error.message).toBe("division by zero");
+  });
+
+  test("treats an undefined error as success", async () => {
+    const legacy = (callback: (error: undefined, value: string) => void) => callback(undefined, "done");
+
+    expect(await fromNodeCallback(legacy)()).toEqual(ok("done"));
+  });
+
+  test("keeps only the first result when the callback is called again", async () => {
+    const chatty = (callback: (error: string | null, value?: number) => void) => {
+      callback(null, 1);
+      callback("late failure");
+    };
+
+    expect(await fromNodeCallback(chatty)()).toEqual(ok(1));
+  });
+
+  test("rejects when the function throws synchronously", async () => {
+    const broken = (input: string, callback: (error: Error | null) => void): void => {
+      if (input === "") throw new Error("bad arguments");
+      callback(null);
+    };
+
+    await expect(fromNodeCallback(broken)("")).rejects.toThrow("bad arguments");
+  });
+
+  test("wraps Node core APIs", async () => {
+    const randomBytesResult = fromNodeCallback(randomBytes);
+
+    const result = await randomBytesResult(8);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.value).toHaveLength(8);
+  });
+
+  test("picks an overload with an arrow function", async () => {
+    const readMissing = fromNodeCallback((callback: NodeCallback<string, NodeJS.ErrnoException>) =>
+      readFile("/does/not/exist", "utf8", callback),
+    );
+
+    const result = await readMissing();
+
+    expect(!result.ok && result.error.code).toBe("ENOENT");
+  });
+});
+
+describe("toNodeCallback", () => {
+  test("calls back with null and the value for an Ok", async () => {
+    const parseCallback = toNodeCallback(parse);
+
+    expect(await collect((callback) => parseCallback("42", callback))).toEqual([null, 42]);
+  });
+
+  test("calls back with the error for an Err", async () => {
+    const parseCallback = toNodeCallback(parse);
+
+    expect(await collect((callback) => parseCallback("abc", callback))).toEqual(["not a number: abc"]);
+  });
+
+  test("supports functions returning an AsyncResult", async () => {
+    const load = async (id: number, name: string) => ok({ id, name });
+
+    expect(await collect((callback) => toNodeCallback(load)(1, "Ada", callback))).toEqual([
+      null,
+      { id: 1, name: "Ada" },
+    ]);
+  });
+
+  test("calls back asynchronously", () => {
+    let called = false;
+
+    toNodeCallback(parse)("1", () => {
+      called = true;
+    });
+
+    expect(called).toBe(false);
+  });
+
+  test("passes a thrown error or a rejection as the error", async () => {
+    const throwing = (): Result<number, string> => {
+      throw new Error("bug");
+    };
+    const rejecting = async (): Promise<Result<number, string>> => {
+      throw new Error("network down");
+    };
+
+    const [thrown] = await collect((callback) => toNodeCallback(throwing)(callback));
+    const [rejected] = await collect((callback) => toNodeCallback(rejecting)(callback));
+
+    expect(thrown).toEqual(new Error("bug"));
+    expect(rejected).toEqual(new Error("network down"));
+  });
+
+  test("rethrows a throw from the callback on the next tick instead of rejecting", async () => {
+    const { nextTick } = process;
+    const scheduled = new Promise<() => void>((resolve) => {
+      process.nextTick = ((task: () => void) => resolve(task)) as typeof process.nextTick;
+    });
+    let rejections = 0;
+    const onRejection = () => rejections++;
+    process.on("unhandledRejection", onRejection);
+
+    try {
+      toNodeCallback(parse)("1", () => {
+        throw new Error("callback failed");
+      });
+      const rethrow = await scheduled;
+      await new Promise((resolve) => setTimeout(resolve, 1));
+
+      expect(rethrow).toThrow("callback failed");
+      expect(rejections).toBe(0);
+    } finally {
+      process.nextTick = nextTick;
+      process.off("unhandledRejection", onRejection);
+    }
+  });
+
+  test("round-trips through fromNodeCallback", async () => {
+    const roundTripped = fromNodeCallback(toNodeCallback(parse));
+
+    expect(await roundTripped("7")).toEqual(ok(7));
+    expect(await roundTripped("x")).toEqual(err("not a number: x"));
+  });
+});
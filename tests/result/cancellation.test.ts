@@ -0,0 +1,271 @@
+import { describe, test, expect } from "bun:test";
+
+import {
+  type Result,
+  Aborted,
+  TimeoutError,
+  ok,
+  err,
+  isErr,
+  withTimeout,
+  fromPromiseWithSignal,
+  andThenWithSignal,
+} from "@/result";
+import { andThenWithSignal as andThenWithSignalP, withTimeout as withTimeoutP } from "@/result/pipeable";
+import { pipe } from "@/utils";
+
+const delay = <T>(ms: number, value: T) => new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+const rejectAfter = (ms: number, reason: unknown) =>
+  new Promise<never>((_resolve, reject) => setTimeout(() => reject(reason), ms));
+const never = () => new Promise<never>(() => {});
+
+/** Runs `run`, then waits a little, collecting the unhandled rejections raised meanwhile. */
+const unhandledDuring = async (run: () => Promise<unknown>): Promise<unknown[]> => {
+  const reasons: unknown[] = [];
+  const onUnhandled = (reason: unknown) => reasons.push(reason);
+  process.on("unhandledRejection", onUnhandled);
+  try {
+    await run();
+    await delay(20, undefined);
+  } finally {
+    process.off("unhandledRejection", onUnhandled);
+  }
+  return reasons;
+};
+
+/** Counts the "abort" listeners currently attached to a signal. */
+const trackAbortListeners = (signal: AbortSignal) => {
+  const tracked = { count: 0 };
+  const add = signal.addEventListener.bind(signal);
+  const remove = signal.removeEventListener.bind(signal);
+  signal.addEventListener = (
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions,
+  ) => {
+    if (type === "abort") tracked.count += 1;
+    add(type, listener, options);
+  };
+  signal.removeEventListener = (
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions,
+  ) => {
+    if (type === "abort") tracked.count -= 1;
+    remove(type, listener, options);
+  };
+  return tracked;
+};
+
+describe("Cancellation", () => {
+  describe("error types", () => {
+    test("TimeoutError carries the elapsed timeout", () => {
+      const error = new TimeoutError(100);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error._tag).toBe("TimeoutError");
+      expect(error.name).toBe("TimeoutError");
+      expect(error.ms).toBe(100);
+      expect(error.message).toBe("Timed out after 100ms");
+    });
+
+    test("Aborted keeps the abort reason as its cause", () => {
+      const error = new Aborted("user cancelled");
+
+      expect(error._tag).toBe("Aborted");
+      expect(error.cause).toBe("user cancelled");
+    });
+  });
+
+  describe("withTimeout", () => {
+    test("returns the Result when it settles in time", async () => {
+      expect(await withTimeout(delay(1, ok(42)), 50)).toEqual(ok(42));
+      expect(await withTimeout(delay(1, err("boom")), 50)).toEqual(err("boom"));
+    });
+
+    test("returns a TimeoutError when the deadline passes first", async () => {
+      let timedOut = false;
+      const result = await withTimeout(delay(50, ok(42)), 5, () => {
+        timedOut = true;
+      });
+
+      expect(timedOut).toBe(true);
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBeInstanceOf(TimeoutError);
+        expect((result.error as TimeoutError).ms).toBe(5);
+      }
+    });
+
+    test("aborts the task's signal with the TimeoutError", async () => {
+      let taskSignal: AbortSignal | undefined;
+      const result = await withTimeout((signal) => {
+        taskSignal = signal;
+        return fromPromiseWithSignal(delay(50, "late"), signal);
+      }, 5);
+
+      expect(taskSignal?.aborted).toBe(true);
+      expect(taskSignal?.reason).toBeInstanceOf(TimeoutError);
+      expect(isErr(result) && result.error instanceof TimeoutError).toBe(true);
+    });
+
+    test("does not call onTimeout once the Result has settled", async () => {
+      let timedOut = false;
+      await withTimeout(Promise.resolve(ok(1)), 5, () => {
+        timedOut = true;
+      });
+      await delay(10, undefined);
+
+      expect(timedOut).toBe(false);
+    });
+  });
+
+  describe("fromPromiseWithSignal", () => {
+    test("behaves like fromPromiseWithError while the signal is live", async () => {
+      const controller = new AbortController();
+
+      expect(await fromPromiseWithSignal(Promise.resolve(1), controller.signal)).toEqual(ok(1));
+      expect(
+        await fromPromiseWithSignal(Promise.reject(new Error("boom")), controller.signal, (e) => (e as Error).message),
+      ).toEqual(err("boom"));
+    });
+
+    test("returns Aborted as soon as the signal aborts", async () => {
+      const controller = new AbortController();
+      const pending = fromPromiseWithSignal(delay(50, 1), controller.signal);
+      controller.abort("stop");
+
+      const result = await pending;
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBeInstanceOf(Aborted);
+        expect((result.error as Aborted).cause).toBe("stop");
+      }
+    });
+
+    test("does not start the task when the signal has already aborted", async () => {
+      let started = false;
+      const result = await fromPromiseWithSignal(async () => {
+        started = true;
+        return 1;
+      }, AbortSignal.abort());
+
+      expect(started).toBe(false);
+      expect(isErr(result) && result.error instanceof Aborted).toBe(true);
+    });
+
+    test("handles a later rejection of a promise given with an already aborted signal", async () => {
+      let result: Result<never, unknown> | undefined;
+      const unhandled = await unhandledDuring(async () => {
+        result = await fromPromiseWithSignal(rejectAfter(5, new Error("late")), AbortSignal.abort());
+      });
+
+      expect(unhandled).toEqual([]);
+      expect(result?.ok).toBe(false);
+    });
+
+    test("removes its abort listener when the signal aborts before a promise that never settles", async () => {
+      const controller = new AbortController();
+      const listeners = trackAbortListeners(controller.signal);
+
+      const pending = fromPromiseWithSignal(never(), controller.signal);
+      expect(listeners.count).toBe(1);
+      controller.abort();
+
+      expect(isErr(await pending)).toBe(true);
+      expect(listeners.count).toBe(0);
+    });
+  });
+
+  describe("andThenWithSignal", () => {
+    test("chains like andThen while the signal is live", async () => {
+      const controller = new AbortController();
+      const result = await andThenWithSignal(ok(2), async (n) => ok(n * 3), controller.signal);
+
+      expect(result).toEqual(ok(6));
+    });
+
+    test("passes Errs through without calling the step", async () => {
+      let called = false;
+      const result = await andThenWithSignal(
+        err("boom"),
+        () => {
+          called = true;
+          return ok(1);
+        },
+        new AbortController().signal,
+      );
+
+      expect(called).toBe(false);
+      expect(result).toEqual(err("boom"));
+    });
+
+    test("stops running further steps once the signal aborts", async () => {
+      const controller = new AbortController();
+      const steps: string[] = [];
+
+      const first = andThenWithSignal(
+        ok(1),
+        async (n) => {
+          steps.push("first");
+          controller.abort();
+          return ok(n + 1);
+        },
+        controller.signal,
+      );
+      const second = await andThenWithSignal(
+        first,
+        (n) => {
+          steps.push("second");
+          return ok(n + 1);
+        },
+        controller.signal,
+      );
+
+      expect(steps).toEqual(["first"]);
+      expect(isErr(second) && second.error instanceof Aborted).toBe(true);
+    });
+
+    test("returns Aborted without waiting for a hung step", async () => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 5);
+
+      const result = await andThenWithSignal(ok(1), () => delay(1000, ok(2)), controller.signal);
+
+      expect(isErr(result) && result.error instanceof Aborted).toBe(true);
+    });
+
+    test("handles a later rejection of an input given with an already aborted signal", async () => {
+      const unhandled = await unhandledDuring(() =>
+        andThenWithSignal(rejectAfter(5, new Error("late")), () => ok(1), AbortSignal.abort()),
+      );
+
+      expect(unhandled).toEqual([]);
+    });
+
+    test("removes its abort listener when the signal aborts during a step that never settles", async () => {
+      const controller = new AbortController();
+      const listeners = trackAbortListeners(controller.signal);
+
+      const pending = andThenWithSignal(ok(1), () => never(), controller.signal);
+      await delay(1, undefined);
+      controller.abort();
+
+      expect(isErr(await pending)).toBe(true);
+      expect(listeners.count).toBe(0);
+    });
+  });
+
+  describe("pipeable variants", () => {
+    test("compose with pipe", async () => {
+      const controller = new AbortController();
+      const result = await pipe(
+        ok(1),
+        andThenWithSignalP((n: number, signal) => fromPromiseWithSignal(delay(1, n + 1), signal), controller.signal),
+        withTimeoutP(50),
+      );
+
+      expect(result).toEqual(ok(2));
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, test, expect } from "bun:test";
+
+import { type Result, ok, err, isErr, flatMap, context, ContextError, errorChain, formatErrorChain } from "@/result";
+import { context as contextP, flatMap as flatMapP } from "@/result/pipeable";
+import { pipe } from "@/utils";
+
+type HttpError = { status: number };
+
+const fetchUser = (id: number): Result<{ id: number }, HttpError> => (id > 0 ? ok({ id }) : err({ status: 404 }));
+const parseProfile = (user: { id: number }): Result<string, Error> =>
+  user.id === 1 ? ok("Alice") : err(new Error("missing name"));
+
+describe("Error context", () => {
+  describe("ContextError", () => {
+    test("keeps the message and typed cause", () => {
+      const error = new ContextError("loading user", { status: 404 });
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error._tag).toBe("ContextError");
+      expect(error.message).toBe("loading user");
+      const status: number = error.cause.status;
+      expect(status).toBe(404);
+    });
+  });
+
+  describe("context", () => {
+    test("leaves Ok untouched", () => {
+      expect(context(ok(1), "loading")).toEqual(ok(1));
+    });
+
+    test("wraps non-Error values in a ContextError", () => {
+      const result = context(fetchUser(0), "fetching user 0");
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBeInstanceOf(ContextError);
+        expect(result.error.message).toBe("fetching user 0");
+        expect(result.error.cause).toEqual({ status: 404 });
+      }
+    });
+
+    test("chains Error values through Error.cause", () => {
+      const result = context(flatMap(fetchUser(2), parseProfile), "loading user profile");
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.cause).toBeInstanceOf(Error);
+        expect((result.error.cause as Error).message).toBe("missing name");
+      }
+    });
+
+    test("nests through several steps", () => {
+      const result = pipe(
+        fetchUser(0),
+        contextP("fetching user 0"),
+        flatMapP(parseProfile),
+        contextP("loading user profile"),
+      );
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(errorChain(result.error).map((link) => (link instanceof Error ? link.message : link))).toEqual([
+          "loading user profile",
+          "fetching user 0",
+          { status: 404 },
+        ]);
+      }
+    });
+  });
+
+  describe("errorChain", () => {
+    test("follows causes set outside the library", () => {
+      const root = new Error("connection refused");
+      const error = new Error("query failed", { cause: root });
+
+      expect(errorChain(error)).toEqual([error, root]);
+    });
+
+    test("returns non-Errors on their own", () => {
+      expect(errorChain("boom")).toEqual(["boom"]);
+    });
+
+    test("stops at cycles", () => {
+      const a = new Error("a");
+      const b = new Error("b", { cause: a });
+      a.cause = b;
+
+      expect(errorChain(a)).toEqual([a, b]);
+    });
+  });
+
+  describe("formatErrorChain", () => {
+    test("prints a single error as its message", () => {
+      expect(formatErrorChain(new Error("boom"))).toBe("boom");
+      expect(formatErrorChain("boom")).toBe("boom");
+    });
+
+    test("prints a single cause without numbering", () => {
+      expect(formatErrorChain(new ContextError("loading", new Error("boom")))).toBe("loading\n\nCaused by:\n    boom");
+    });
+
+    test("prints the full chain, numbering causes", () => {
+      const error = new ContextError(
+        "loading user profile",
+        new ContextError("fetching user 1", new Error("connection refused")),
+      );
+
+      expect(formatErrorChain(error)).toBe(
+        ["loading user profile", "", "Caused by:", "    0: fetching user 1", "    1: connection refused"].join("\n"),
+      );
+    });
+
+    test("prints non-Error causes as JSON", () => {
+      expect(formatErrorChain(new ContextError("fetching", { status: 404 }))).toBe(
+        'fetching\n\nCaused by:\n    {"status":404}',
+      );
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+
+import { object, string, number } from "@/decoder";
+import { ok, catchTag, fetchResult, DecodeError, HttpError, NetworkError, TimeoutError } from "@/result";
+
+import type { Server } from "bun";
+
+const user = object({ id: number(), name: string() });
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { pathname } = new URL(request.url);
+      switch (pathname) {
+        case "/user": {
+          return Response.json({ id: 1, name: "Ada" });
+        }
+        case "/echo": {
+          return Response.json({ method: request.method, body: await request.text() });
+        }
+        case "/wrong-shape": {
+          return Response.json({ id: "1", name: "Ada" });
+        }
+        case "/not-json": {
+          return new Response("<html>oops</html>");
+        }
+        case "/empty": {
+          return new Response(null, { status: 204 });
+        }
+        case "/slow": {
+          await Bun.sleep(200);
+          return Response.json({ id: 1, name: "Ada" });
+        }
+        default: {
+          return new Response(JSON.stringify({ error: "no such route" }), { status: 404, statusText: "Not Found" });
+        }
+      }
+    },
+  });
+  baseUrl = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+describe("fetchResult", () => {
+  test("returns the decoded body of a successful response", async () => {
+    const result = await fetchResult(`${baseUrl}/user`, undefined, { decode: user });
+
+    expect(result).toEqual(ok({ id: 1, name: "Ada" }));
+  });
+
+  test("returns the parsed body as unknown without a decoder", async () => {
+    expect(await fetchResult(`${baseUrl}/user`)).toEqual(ok({ id: 1, name: "Ada" }));
+  });
+
+  test("passes init through to fetch", async () => {
+    const result = await fetchResult(`${baseUrl}/echo`, { method: "POST", body: "hello" });
+
+    expect(result).toEqual(ok({ method: "POST", body: "hello" }));
+  });
+
+  test("returns an HttpError with the status and body for a non-2xx response", async () => {
+    const result = await fetchResult(`${baseUrl}/missing`, undefined, { decode: user });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toBeInstanceOf(HttpError);
+    expect(result.error).toMatchObject({
+      _tag: "HttpError",
+      status: 404,
+      statusText: "Not Found",
+      body: '{"error":"no such route"}',
+      message: "HTTP 404 Not Found",
+    });
+  });
+
+  test("returns a DecodeError when the body fails the decoder", async () => {
+    const result = await fetchResult(`${baseUrl}/wrong-shape`, undefined, { decode: user });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toBeInstanceOf(DecodeError);
+    expect(result.error).toMatchObject({
+      _tag: "DecodeError",
+      stage: "schema",
+      errors: [{ path: ["id"], message: expect.any(String) }],
+    });
+    expect(result.error.message).toStartWith("id: ");
+  });
+
+  test("returns a DecodeError when the body is not JSON", async () => {
+    const result = await fetchResult(`${baseUrl}/not-json`);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error).toMatchObject({
+      _tag: "DecodeError",
+      stage: "json",
+      errors: [{ path: [], message: expect.stringMatching(/^Invalid JSON:/) }],
+    });
+    expect(result.error.cause).toBeInstanceOf(SyntaxError);
+  });
+
+  test("lets catchTag handle decode failures", async () => {
+    const result = catchTag(await fetchResult(`${baseUrl}/not-json`), "DecodeError", () => ok("fallback"));
+
+    expect(result).toEqual(ok("fallback"));
+  });
+
+  test("decodes an empty body as undefined", async () => {
+    expect(await fetchResult(`${baseUrl}/empty`)).toEqual(ok(undefined));
+  });
+
+  test("returns a NetworkError when the server cannot be reached", async () => {
+    const closed = Bun.serve({ port: 0, fetch: () => new Response("") });
+    const url = `http://localhost:${closed.port}/user`;
+    closed.stop(true);
+
+    const result = await fetchResult(url);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toBeInstanceOf(NetworkError);
+      expect(result.error).toHaveProperty("cause");
+    }
+  });
+
+  test("returns a NetworkError when init.signal aborts", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await fetchResult(`${baseUrl}/user`, { signal: controller.signal });
+
+    expect(!result.ok && result.error).toBeInstanceOf(NetworkError);
+  });
+
+  test("returns a TimeoutError when the timeout passes first", async () => {
+    const result = await fetchResult(`${baseUrl}/slow`, undefined, { decode: user, timeout: 20 });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toBeInstanceOf(TimeoutError);
+      expect(result.error).toMatchObject({ _tag: "TimeoutError", ms: 20 });
+    }
+  });
+
+  test("returns the body when it arrives within the timeout", async () => {
+    const result = await fetchResult(`${baseUrl}/user`, undefined, { decode: user, timeout: 1000 });
+
+    expect(result).toEqual(ok({ id: 1, name: "Ada" }));
+  });
+
+  test("aborts the request when the timeout passes", async () => {
+    let signal: AbortSignal | null | undefined;
+    const spy = (input: RequestInfo | URL, init?: RequestInit) => {
+      signal = init?.signal;
+      return fetch(input, init);
+    };
+
+    await fetchResult(`${baseUrl}/slow`, undefined, { timeout: 20, fetch: spy });
+
+    expect(signal?.aborted).toBe(true);
+  });
+
+  test("uses an injected fetch implementation", async () => {
+    const calls: string[] = [];
+    const stub = async (input: RequestInfo | URL) => {
+      calls.push(String(input));
+      return Response.json({ id: 2, name: "Grace" });
+    };
+
+    const result = await fetchResult("https://api.example.test/users/2", undefined, { decode: user, fetch: stub });
+
+    expect(result).toEqual(ok({ id: 2, name: "Grace" }));
+    expect(calls).toEqual(["https://api.example.test/users/2"]);
+  });
+
+  test("returns a NetworkError when the injected fetch rejects", async () => {
+    const failing = () => Promise.reject(new TypeError("fetch failed"));
+
+    const result = await fetchResult("https://api.example.test", undefined, { fetch: failing });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatchObject({ _tag: "NetworkError", message: "fetch failed" });
+  });
+
+  test("returns a NetworkError when the injected fetch throws synchronously", async () => {
+    const throwing = (): Promise<Response> => {
+      throw new TypeError("invalid URL");
+    };
+
+    const result = await fetchResult("not a url", undefined, { fetch: throwing });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toMatchObject({ _tag: "NetworkError", message: "invalid URL" });
+  });
+
+  test("throws a RangeError for a negative timeout", async () => {
+    await expect(fetchResult(`${baseUrl}/user`, undefined, { timeout: -1 })).rejects.toThrow(RangeError);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, test, expect } from "bun:test";
+
+import { D } from "@/index";
+import {
+  type Result,
+  ok,
+  err,
+  toJSON,
+  fromJSON,
+  errorToJSON,
+  errorFromJSON,
+  ContextError,
+  TimeoutError,
+  unwrap,
+} from "@/result";
+
+const overTheWire = (json: unknown): unknown => {
+  const text = JSON.stringify(json);
+  return JSON.parse(text);
+};
+
+const roundTrip = <T, E>(result: Result<T, E>): unknown => overTheWire(toJSON(result));
+
+describe("Result JSON codec", () => {
+  describe("toJSON", () => {
+    test("encodes Ok and Err in the tagged wire format", () => {
+      expect(toJSON(ok({ id: 1 }))).toEqual({ _tag: "Ok", value: { id: 1 } });
+      expect(toJSON(err("not found"))).toEqual({ _tag: "Err", error: "not found" });
+    });
+
+    test("applies the given encoders", () => {
+      const encoders = { value: (date: Date) => date.toISOString(), error: (error: { code: number }) => error.code };
+
+      expect(toJSON(ok(new Date(0)), encoders)).toEqual({ _tag: "Ok", value: "1970-01-01T00:00:00.000Z" });
+      expect(toJSON(err({ code: 404 }), encoders)).toEqual({ _tag: "Err", error: 404 });
+    });
+
+    test("encodes Error instances by default", () => {
+      const json = toJSON(err(new TypeError("boom")));
+
+      expect(json).toMatchObject({ _tag: "Err", error: { name: "TypeError", message: "boom" } });
+    });
+  });
+
+  describe("fromJSON", () => {
+    test("round-trips Ok and Err through JSON.stringify", () => {
+      expect(fromJSON(roundTrip(ok([1, 2])))).toEqual(ok(ok([1, 2])));
+      expect(fromJSON(roundTrip(err({ code: 1 })))).toEqual(ok(err({ code: 1 })));
+    });
+
+    test("round-trips an Ok of undefined", () => {
+      const json = JSON.stringify(toJSON(ok(undefined)));
+
+      expect(json).toBe('{"_tag":"Ok"}');
+      expect(fromJSON(JSON.parse(json))).toEqual(ok(ok(undefined)));
+    });
+
+    test("validates the value and error with the given decoders", () => {
+      const decoders = { value: D.object({ id: D.number() }), error: D.string() };
+      const decoded: Result<Result<{ id: number }, string>, D.DecodeError> = fromJSON(
+        roundTrip(ok({ id: 1 })),
+        decoders,
+      );
+
+      expect(decoded).toEqual(ok(ok({ id: 1 })));
+      expect(fromJSON(roundTrip(err("boom")), decoders)).toEqual(ok(err("boom")));
+    });
+
+    test("prefixes decoder errors with the field", () => {
+      const decoders = { value: D.object({ id: D.number() }), error: D.string() };
+
+      expect(fromJSON({ _tag: "Ok", value: { id: "1" } }, decoders)).toEqual(
+        err({ path: ["value", "id"], message: "expected number, received string" }),
+      );
+      expect(fromJSON({ _tag: "Err", error: 42 }, decoders)).toEqual(
+        err({ path: ["error"], message: "expected string, received number" }),
+      );
+    });
+
+    test("rejects input that is not a Result", () => {
+      expect(fromJSON(null)).toEqual(err({ path: [], message: "expected object, received null" }));
+      expect(fromJSON("Ok")).toEqual(err({ path: [], message: "expected object, received string" }));
+      expect(fromJSON({ ok: true, value: 1 })).toEqual(
+        err({ path: ["_tag"], message: 'expected "Ok" | "Err", received undefined' }),
+      );
+      expect(fromJSON({ _tag: "Some", value: 1 })).toEqual(
+        err({ path: ["_tag"], message: 'expected "Ok" | "Err", received "Some"' }),
+      );
+    });
+  });
+
+  describe("errorToJSON and errorFromJSON", () => {
+    test("keep name, message and stack", () => {
+      const error = new RangeError("out of range");
+      const json = errorToJSON(error);
+
+      expect(json).toEqual({ name: "RangeError", message: "out of range", stack: error.stack });
+      const decoded = unwrap(errorFromJSON(overTheWire(json)));
+      expect(decoded).toBeInstanceOf(Error);
+      expect(decoded.name).toBe("RangeError");
+      expect(decoded.message).toBe("out of range");
+      expect(decoded.stack).toBe(error.stack);
+    });
+
+    test("keep tagged error properties", () => {
+      const decoded = unwrap(errorFromJSON(overTheWire(errorToJSON(new TimeoutError(500)))));
+
+      expect(decoded).toMatchObject({ _tag: "TimeoutError", ms: 500, message: "Timed out after 500ms" });
+    });
+
+    test("encode and decode the cause chain", () => {
+      const error = new ContextError("loading user", new ContextError("fetching", new Error("connection refused")));
+      const json = overTheWire(errorToJSON(error));
+
+      expect(json).toMatchObject({
+        _tag: "ContextError",
+        message: "loading user",
+        cause: { _tag: "ContextError", message: "fetching", cause: { name: "Error", message: "connection refused" } },
+      });
+      const decoded = unwrap(errorFromJSON(json));
+      expect(decoded.cause).toBeInstanceOf(Error);
+      expect((decoded.cause as Error).cause).toMatchObject({ message: "connection refused" });
+    });
+
+    test("keep causes that are not Errors", () => {
+      const json = errorToJSON(new Error("failed", { cause: { status: 503 } }));
+
+      expect(json.cause).toEqual({ status: 503 });
+      expect(unwrap(errorFromJSON(json)).cause).toEqual({ status: 503 });
+    });
+
+    test("stop at cause cycles", () => {
+      const error = new Error("outer");
+      error.cause = new Error("inner", { cause: error });
+
+      expect(() => JSON.stringify(errorToJSON(error))).not.toThrow();
+      expect(errorToJSON(error)).toMatchObject({ message: "outer", cause: { message: "inner" } });
+      expect(errorToJSON(error).cause).not.toHaveProperty("cause");
+    });
+
+    test("errorFromJSON rejects data without a message", () => {
+      expect(errorFromJSON({ name: "Error" })).toEqual(
+        err({ path: ["message"], message: "expected string, received undefined" }),
+      );
+      expect(errorFromJSON(42)).toEqual(err({ path: [], message: "expected object, received number" }));
+    });
+
+    test("work as Result encoders and decoders across the wire", () => {
+      const sent = toJSON(err(new TimeoutError(100)));
+      const received = fromJSON(overTheWire(sent), { error: errorFromJSON });
+
+      const result = unwrap(received);
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.error).toMatchObject({ _tag: "TimeoutError", ms: 100 });
+    });
+  });
+});
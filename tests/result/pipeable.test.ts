@@ -0,0 +1,427 @@
+import { describe, test, expect } from "bun:test";
+
+import { R } from "@/index";
+import { isNone, isSome } from "@/option";
+import { type Result, ok, err, isOk, isErr, TaggedError } from "@/result";
+import {
+  map,
+  mapErr,
+  flatMap,
+  filter,
+  unwrap,
+  unwrapOr,
+  unwrapOrElse,
+  orElse,
+  recover,
+  recoverWith,
+  match,
+  tap,
+  tapErr,
+  mapToOption,
+  toPromise,
+  andThen,
+  mapAsync,
+  mapErrAsync,
+  flatMapAsync,
+  tapAsync,
+  matchAsync,
+  unwrapOrAsync,
+  combineAsync,
+  traverseAsync,
+  catchTag,
+  catchTags,
+} from "@/result/pipeable";
+import { flow, pipe } from "@/utils";
+
+describe("Result pipeable", () => {
+  describe("map", () => {
+    test("maps Ok variant inside pipe", () => {
+      const result = pipe(
+        ok(21),
+        map((n) => n * 2),
+      );
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toBe(42);
+      }
+    });
+
+    test("preserves Err variant", () => {
+      const result = pipe(
+        err("boom") as Result<number, string>,
+        map((n) => n * 2),
+      );
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe("boom");
+      }
+    });
+  });
+
+  describe("mapErr", () => {
+    test("maps Err variant inside pipe", () => {
+      const result = pipe(
+        err("boom"),
+        mapErr((e) => new Error(e)),
+      );
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBeInstanceOf(Error);
+        expect(result.error.message).toBe("boom");
+      }
+    });
+
+    test("preserves Ok variant", () => {
+      const result = pipe(
+        ok<number, string>(42),
+        mapErr((e) => e.length),
+      );
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toBe(42);
+      }
+    });
+  });
+
+  describe("flatMap", () => {
+    test("chains Result-returning functions", () => {
+      const parse = (s: string): Result<number, string> => {
+        const n = Number(s);
+        return Number.isNaN(n) ? err("not a number") : ok(n);
+      };
+
+      const good = pipe(ok("42"), flatMap(parse));
+      const bad = pipe(ok("abc"), flatMap(parse));
+
+      expect(isOk(good)).toBe(true);
+      if (isOk(good)) {
+        expect(good.value).toBe(42);
+      }
+      expect(isErr(bad)).toBe(true);
+      if (isErr(bad)) {
+        expect(bad.error).toBe("not a number");
+      }
+    });
+
+    test("does not call the function for Err", () => {
+      let called = false;
+      const result = pipe(
+        err("initial") as Result<number, string>,
+        flatMap((n) => {
+          called = true;
+          return ok(n);
+        }),
+      );
+
+      expect(called).toBe(false);
+      expect(isErr(result)).toBe(true);
+    });
+    test("accumulates heterogeneous error types", () => {
+      type ParseError = { type: "PARSE" };
+      type BoundsError = { type: "RANGE"; max: number };
+
+      const parse = (s: string): Result<number, ParseError> =>
+        Number.isNaN(Number(s)) ? err({ type: "PARSE" }) : ok(Number(s));
+      const atMost =
+        (max: number) =>
+        (n: number): Result<number, BoundsError> =>
+          n <= max ? ok(n) : err({ type: "RANGE", max });
+
+      const result: Result<number, ParseError | BoundsError> = pipe(ok("120"), flatMap(parse), flatMap(atMost(100)));
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({ type: "RANGE", max: 100 });
+      }
+    });
+  });
+
+  describe("filter", () => {
+    test("keeps values that pass the predicate", () => {
+      const result = pipe(
+        ok(42),
+        filter((n) => n > 40, "too small"),
+      );
+
+      expect(isOk(result)).toBe(true);
+    });
+
+    test("converts to Err when the predicate fails", () => {
+      const result = pipe(
+        ok(5),
+        filter((n) => n > 40, "too small"),
+      );
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe("too small");
+      }
+    });
+  });
+
+  describe("unwrap helpers", () => {
+    test("unwrap returns the value or throws", () => {
+      expect(pipe(ok(42), unwrap())).toBe(42);
+      expect(() => pipe(err("boom"), unwrap("custom"))).toThrow("custom");
+    });
+
+    test("unwrapOr returns the default for Err", () => {
+      expect(pipe(ok(42), unwrapOr(0))).toBe(42);
+      expect(pipe(err("boom") as Result<number, string>, unwrapOr(0))).toBe(0);
+    });
+
+    test("unwrapOrElse computes the default lazily", () => {
+      let calls = 0;
+      const fallback = () => {
+        calls++;
+        return 0;
+      };
+
+      expect(pipe(ok(42), unwrapOrElse(fallback))).toBe(42);
+      expect(calls).toBe(0);
+      expect(pipe(err("boom") as Result<number, string>, unwrapOrElse(fallback))).toBe(0);
+      expect(calls).toBe(1);
+    });
+  });
+
+  describe("recovery", () => {
+    test("orElse switches to a fallback Result", () => {
+      const result = pipe(
+        err("missing") as Result<number, string>,
+        orElse((e) => (e === "missing" ? ok(0) : err(e.length))),
+      );
+
+      expect(result).toEqual(ok(0));
+    });
+
+    test("recover always produces an Ok", () => {
+      const result: Result<number, never> = pipe(
+        err("boom") as Result<number, string>,
+        recover((e) => e.length),
+      );
+
+      expect(result).toEqual(ok(4));
+    });
+
+    test("recoverWith may change the value type", () => {
+      const result: Result<number | string, never> = pipe(
+        err("boom") as Result<number, string>,
+        recoverWith((e) => ok(`recovered ${e}`)),
+      );
+
+      expect(result).toEqual(ok("recovered boom"));
+    });
+  });
+
+  describe("match", () => {
+    test("handles both variants", () => {
+      const render = match<number, string, string>({
+        ok: (value) => `ok: ${value}`,
+        err: (error) => `err: ${error}`,
+      });
+
+      expect(pipe(ok(42), render)).toBe("ok: 42");
+      expect(pipe(err("boom"), render)).toBe("err: boom");
+    });
+  });
+
+  describe("tap and tapErr", () => {
+    test("tap runs only for Ok", () => {
+      const seen: number[] = [];
+      pipe(
+        ok(1),
+        tap((n) => seen.push(n)),
+      );
+      pipe(
+        err("boom") as Result<number, string>,
+        tap((n) => seen.push(n)),
+      );
+
+      expect(seen).toEqual([1]);
+    });
+
+    test("tapErr runs only for Err", () => {
+      const seen: string[] = [];
+      pipe(
+        ok<number, string>(1),
+        tapErr((e) => seen.push(e)),
+      );
+      pipe(
+        err("boom"),
+        tapErr((e) => seen.push(e)),
+      );
+
+      expect(seen).toEqual(["boom"]);
+    });
+  });
+
+  describe("unary re-exports", () => {
+    test("mapToOption composes directly", () => {
+      expect(isSome(pipe(ok(1), mapToOption))).toBe(true);
+      expect(isNone(pipe(err("boom"), mapToOption))).toBe(true);
+    });
+
+    test("toPromise composes directly", async () => {
+      expect(await pipe(ok(1), toPromise)).toBe(1);
+    });
+  });
+
+  describe("andThen", () => {
+    test("chains sync and async steps", async () => {
+      const fetchUser = async (id: number): Promise<Result<{ id: number; name: string }, string>> =>
+        id > 0 ? ok({ id, name: "Alice" }) : err("Invalid ID");
+
+      const result = await pipe(
+        ok(1),
+        andThen(fetchUser),
+        andThen((user) => ok(user.name)),
+      );
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toBe("Alice");
+      }
+    });
+
+    test("skips steps on Err", async () => {
+      let called = false;
+      const result = await pipe(
+        err("boom") as Result<number, string>,
+        andThen(async (n) => {
+          called = true;
+          return ok(n);
+        }),
+      );
+
+      expect(called).toBe(false);
+      expect(isErr(result)).toBe(true);
+    });
+  });
+
+  describe("async combinators", () => {
+    type User = { id: number; name: string };
+    type Post = { id: number; userId: number; title: string };
+
+    const fetchUser = async (id: number): Promise<Result<User, string>> =>
+      id > 0 ? ok({ id, name: "Alice" }) : err("Invalid ID");
+    const fetchPosts = async (user: User): Promise<Result<Post[], string>> =>
+      ok([{ id: 1, userId: user.id, title: "Hello" }]);
+
+    test("compose a whole async pipeline without .then", async () => {
+      const seen: number[] = [];
+      const titles = await pipe(
+        ok(1),
+        flatMapAsync(fetchUser),
+        tapAsync((user) => {
+          seen.push(user.id);
+        }),
+        flatMapAsync(fetchPosts),
+        mapAsync((posts) => posts.map((post) => post.title)),
+        unwrapOrAsync<string[]>([]),
+      );
+
+      expect(titles).toEqual(["Hello"]);
+      expect(seen).toEqual([1]);
+    });
+
+    test("short-circuit on Err", async () => {
+      const message = await pipe(
+        fetchUser(0),
+        flatMapAsync(fetchPosts),
+        mapErrAsync((error) => error.toUpperCase()),
+        matchAsync({
+          ok: (posts) => `${posts.length} posts`,
+          err: async (error) => `error: ${error}`,
+        }),
+      );
+
+      expect(message).toBe("error: INVALID ID");
+    });
+
+    test("traverseAsync takes the items last", async () => {
+      const names = await pipe(
+        [1, 2],
+        traverseAsync((id: number) => fetchUser(id), { concurrency: 1 }),
+        mapAsync((users) => users.map((user) => user.name)),
+      );
+      const failures = await pipe([0, -1], traverseAsync(fetchUser, { mode: "collect-all" }));
+
+      expect(names).toEqual(ok(["Alice", "Alice"]));
+      expect(failures).toEqual(err(["Invalid ID", "Invalid ID"]));
+    });
+
+    test("combineAsync composes directly", async () => {
+      const result = await pipe([fetchUser(1), ok(2)] as const, combineAsync);
+
+      expect(result).toEqual(ok([{ id: 1, name: "Alice" }, 2]));
+    });
+  });
+
+  describe("catchTag and catchTags", () => {
+    // eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+    class NotFound extends TaggedError("NotFound")<{ id: string }>() {}
+    // eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+    class Invalid extends TaggedError("Invalid")<{ reason: string }>() {}
+
+    const lookup = (id: string): Result<string, NotFound | Invalid> =>
+      id === "" ? err(new Invalid({ reason: "empty" })) : err(new NotFound({ id }));
+
+    test("catchTag infers the error union from the pipe", () => {
+      const result: Result<string, Invalid> = pipe(
+        lookup("7"),
+        catchTag("NotFound", (error) => ok(`guest-${error.id}`)),
+      );
+
+      expect(result).toEqual(ok("guest-7"));
+    });
+
+    test("catchTags infers the error union from the pipe", () => {
+      const result: Result<string, never> = pipe(
+        lookup(""),
+        catchTags({
+          NotFound: (error) => ok(error.id),
+          Invalid: (error) => ok(error.reason),
+        }),
+      );
+
+      expect(result).toEqual(ok("empty"));
+    });
+  });
+
+  describe("composition", () => {
+    test("builds reusable pipelines with flow", () => {
+      const process = flow(
+        (s: string): Result<string, string> => (s.length > 0 ? ok(s) : err("empty")),
+        map((s) => s.trim()),
+        filter((s) => s.length >= 3, "too short"),
+        map((s) => s.toUpperCase()),
+      );
+
+      const good = process("  hello ");
+      const bad = process(" a ");
+
+      expect(isOk(good)).toBe(true);
+      if (isOk(good)) {
+        expect(good.value).toBe("HELLO");
+      }
+      expect(isErr(bad)).toBe(true);
+      if (isErr(bad)) {
+        expect(bad.error).toBe("too short");
+      }
+    });
+
+    test("is exposed from the root entry as the R namespace", () => {
+      const result = pipe(
+        ok(2),
+        R.map((n) => n + 1),
+        R.unwrapOr(0),
+      );
+
+      expect(result).toBe(3);
+    });
+  });
+});
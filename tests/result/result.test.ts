@@ -1,12 +1,15 @@
 import { describe, test, expect } from "bun:test";
 
-import { isSome, isNone } from "@/option";
+import { isSome, isNone, none } from "@/option";
 import {
   type Result,
   ok,
   err,
   isOk,
   isErr,
+  isResult,
+  reviveResult,
+  reviver,
   map,
   mapErr,
   flatMap,
@@ -14,11 +17,18 @@ import {
   unwrap,
   unwrapOr,
   unwrapOrElse,
+  orElse,
+  recover,
+  recoverWith,
   combine,
   combineAll,
+  combineObject,
+  combineAllObject,
   match,
   tap,
   tapErr,
+  equals,
+  compare,
   mapToOption,
   fromTry,
   fromTryWithError,
@@ -26,6 +36,16 @@ import {
   fromPromiseWithError,
   toPromise,
   andThen,
+  mapAsync,
+  mapErrAsync,
+  flatMapAsync,
+  tapAsync,
+  matchAsync,
+  unwrapOrAsync,
+  combineAsync,
+  traverseAsync,
+  gen,
+  genAsync,
 } from "@/result";
 
 describe("Result", () => {
@@ -164,6 +184,64 @@ describe("Result", () => {
     });
   });
 
+  describe("isResult, reviveResult and reviver", () => {
+    test("isResult recognizes Results only", () => {
+      expect(isResult(ok(1))).toBe(true);
+      expect(isResult(err("boom"))).toBe(true);
+      expect(isResult({ ok: true, value: 1 })).toBe(false);
+      expect(isResult(undefined)).toBe(false);
+    });
+
+    test("isResult recognizes Results branded by another copy of the library", () => {
+      const foreign = { ok: true, value: 1, [Symbol.for("@railway-ts/core/RESULT_BRAND")]: "ok" };
+
+      expect(isResult(foreign)).toBe(true);
+    });
+
+    test("reviveResult rebuilds cloned Results", () => {
+      const revived = reviveResult<number, string>(structuredClone(ok(42)));
+
+      expect(revived).toEqual(ok(42));
+      expect(isResult(revived)).toBe(true);
+      const json = JSON.stringify(err({ code: 1 }));
+      expect(reviveResult(JSON.parse(json))).toEqual(err({ code: 1 }));
+    });
+
+    test("reviveResult returns Results unchanged", () => {
+      const result = ok(1);
+
+      expect(reviveResult(result)).toBe(result);
+    });
+
+    test("reviveResult rejects other shapes", () => {
+      expect(reviveResult({ ok: true })).toBeUndefined();
+      expect(reviveResult({ ok: true, error: 1 })).toBeUndefined();
+      expect(reviveResult({ ok: true, value: 1, status: 200 })).toBeUndefined();
+      expect(reviveResult([true])).toBeUndefined();
+      expect(reviveResult("ok")).toBeUndefined();
+    });
+
+    test("revived Results support every combinator", () => {
+      const revived = reviveResult<number, string>({ ok: true, value: 2 });
+
+      expect(revived && map(revived, (n) => n * 2)).toEqual(ok(4));
+      expect(
+        gen(function* () {
+          return (yield* revived ?? err("missing")) + 1;
+        }),
+      ).toEqual(ok(3));
+    });
+
+    test("reviver rebuilds nested Results and Options from JSON", () => {
+      const json = JSON.stringify({ user: ok({ name: "Alice", nickname: none() }), posts: [err("timeout")] });
+      const data = JSON.parse(json, reviver);
+
+      expect(data).toEqual({ user: ok({ name: "Alice", nickname: none() }), posts: [err("timeout")] });
+      expect(isResult(data.user)).toBe(true);
+      expect(isNone(data.user.value.nickname)).toBe(true);
+    });
+  });
+
   describe("map function", () => {
     test("maps Ok variant", () => {
       const result = ok(42);
@@ -276,6 +354,31 @@ describe("Result", () => {
         expect(typeof flatMapped.value).toBe("string");
       }
     });
+    test("widens the error type across heterogeneous steps", () => {
+      type ParseError = { type: "PARSE"; input: string };
+      type DbError = { type: "DB"; message: string };
+
+      const parseId = (input: string): Result<number, ParseError> => {
+        const id = Number(input);
+        return Number.isInteger(id) ? ok(id) : err({ type: "PARSE", input });
+      };
+      const loadUser = (id: number): Result<{ id: number }, DbError> =>
+        id === 42 ? ok({ id }) : err({ type: "DB", message: `user ${id} not found` });
+
+      const found: Result<{ id: number }, ParseError | DbError> = flatMap(parseId("42"), loadUser);
+      const badInput: Result<{ id: number }, ParseError | DbError> = flatMap(parseId("abc"), loadUser);
+      const missing: Result<{ id: number }, ParseError | DbError> = flatMap(parseId("7"), loadUser);
+
+      expect(isOk(found)).toBe(true);
+      expect(isErr(badInput)).toBe(true);
+      if (isErr(badInput)) {
+        expect(badInput.error).toEqual({ type: "PARSE", input: "abc" });
+      }
+      expect(isErr(missing)).toBe(true);
+      if (isErr(missing)) {
+        expect(missing.error).toEqual({ type: "DB", message: "user 7 not found" });
+      }
+    });
   });
 
   describe("filter function", () => {
@@ -370,6 +473,48 @@ describe("Result", () => {
     });
   });
 
+  describe("orElse function", () => {
+    test("returns the Result when it is Ok", () => {
+      expect(orElse(ok<number, string>(1), () => ok(2))).toEqual(ok(1));
+    });
+
+    test("switches to the fallback computation on Err", () => {
+      const fallback: Result<number, { code: number }> = orElse(err("local missing"), (e) =>
+        e === "local missing" ? ok(2) : err({ code: 500 }),
+      );
+
+      expect(fallback).toEqual(ok(2));
+      expect(orElse(err("boom"), () => err({ code: 500 }))).toEqual(err({ code: 500 }));
+    });
+  });
+
+  describe("recover function", () => {
+    test("turns an Err into an Ok", () => {
+      const result: Result<number, never> = recover(err("boom") as Result<number, string>, (e) => e.length);
+
+      expect(result).toEqual(ok(4));
+    });
+
+    test("keeps Ok values", () => {
+      expect(recover(ok<number, string>(1), () => 0)).toEqual(ok(1));
+    });
+  });
+
+  describe("recoverWith function", () => {
+    test("replaces the error type and widens the value type", () => {
+      type DbError = { type: "NOT_FOUND" } | { type: "TIMEOUT" };
+      const find = (id: number): Result<{ id: number }, DbError> =>
+        id === 1 ? ok({ id }) : err({ type: id === 2 ? "NOT_FOUND" : "TIMEOUT" });
+
+      const withGuest = (id: number): Result<{ id: number } | "guest", "TIMEOUT"> =>
+        recoverWith(find(id), (e) => (e.type === "NOT_FOUND" ? ok("guest" as const) : err("TIMEOUT" as const)));
+
+      expect(withGuest(1)).toEqual(ok({ id: 1 }));
+      expect(withGuest(2)).toEqual(ok("guest"));
+      expect(withGuest(3)).toEqual(err("TIMEOUT"));
+    });
+  });
+
   describe("combine function", () => {
     test("combines array of Ok results", () => {
       const results = [ok(1), ok(2), ok(3)];
@@ -447,6 +592,75 @@ describe("Result", () => {
     });
   });
 
+  describe("combineObject function", () => {
+    type NameError = { field: "name"; reason: string };
+    type AgeError = { field: "age"; reason: string };
+
+    const validateName = (name: string): Result<string, NameError> =>
+      name.length > 0 ? ok(name) : err({ field: "name", reason: "required" });
+    const validateAge = (age: number): Result<number, AgeError> =>
+      age >= 0 ? ok(age) : err({ field: "age", reason: "negative" });
+
+    test("combines a record of Ok values", () => {
+      const combined: Result<{ name: string; age: number }, NameError | AgeError> = combineObject({
+        name: validateName("Alice"),
+        age: validateAge(30),
+      });
+
+      expect(combined).toEqual(ok({ name: "Alice", age: 30 }));
+    });
+
+    test("returns the first error in key order", () => {
+      const combined = combineObject({
+        name: validateName(""),
+        age: validateAge(-1),
+      });
+
+      expect(combined).toEqual(err({ field: "name", reason: "required" }));
+    });
+
+    test("infers error types of inline Results", () => {
+      const combined: Result<{ a: number; b: never }, string> = combineObject({ a: ok(1), b: err("boom") });
+
+      expect(combined).toEqual(err("boom"));
+    });
+
+    test("returns ok({}) for an empty record", () => {
+      expect(combineObject({})).toEqual(ok({}));
+    });
+  });
+
+  describe("combineAllObject function", () => {
+    test("combines a record of Ok values", () => {
+      const combined = combineAllObject({ a: ok(1), b: ok("two") });
+
+      expect(combined).toEqual(ok({ a: 1, b: "two" }));
+    });
+
+    test("collects errors keyed by field", () => {
+      const name: Result<string, string> = err("required");
+      const email: Result<string, number> = err(400);
+
+      const combined: Result<
+        { name: string; age: number; email: string },
+        Partial<{ name: string; age: never; email: number }>
+      > = combineAllObject({ name, age: ok(42), email });
+
+      expect(isErr(combined)).toBe(true);
+      if (isErr(combined)) {
+        expect(combined.error).toEqual({ name: "required", email: 400 });
+        expect("age" in combined.error).toBe(false);
+      }
+    });
+
+    test("results compose without nesting arrays", () => {
+      const address = combineAllObject({ city: err("required"), zip: ok("12345") });
+      const user = combineAllObject({ name: ok("Alice"), address });
+
+      expect(user).toEqual(err({ address: { city: "required" } }));
+    });
+  });
+
   describe("match function", () => {
     test("matches Ok variant", () => {
       const result = ok(42);
@@ -510,6 +724,57 @@ describe("Result", () => {
     });
   });
 
+  describe("equals function", () => {
+    test("compares Oks and Errs deeply by default", () => {
+      expect(equals(ok({ tags: ["a"] }), ok({ tags: ["a"] }))).toBe(true);
+      expect(equals(err(new Error("boom")), err(new Error("boom")))).toBe(true);
+      expect(equals(ok({ tags: ["a"] }), ok({ tags: ["b"] }))).toBe(false);
+    });
+
+    test("never equates an Ok with an Err", () => {
+      expect(equals<number, number>(ok(1), err(1))).toBe(false);
+      expect(equals<number, number>(err(1), ok(1))).toBe(false);
+    });
+
+    test("uses the given value and error comparisons", () => {
+      const byId = { value: (a: { id: number }, b: { id: number }) => a.id === b.id, error: () => true };
+
+      expect(equals(ok({ id: 1, name: "Alice" }), ok({ id: 1, name: "Alicia" }), byId)).toBe(true);
+      expect(equals(err("timeout"), err("refused"), byId)).toBe(true);
+      expect(equals(ok({ id: 1, name: "Alice" }), ok({ id: 2, name: "Alice" }), byId)).toBe(false);
+    });
+  });
+
+  describe("compare function", () => {
+    test("orders Err before Ok, then by error or value", () => {
+      const results: Result<number, string>[] = [ok(2), err("b"), ok(1), err("a")];
+
+      expect(results.toSorted(compare)).toEqual([err("a"), err("b"), ok(1), ok(2)]);
+    });
+
+    test("returns 0 for equal Results", () => {
+      expect(compare(ok(1), ok(1))).toBe(0);
+      expect(compare(err("a"), err("a"))).toBe(0);
+    });
+
+    test("uses the given value and error orders", () => {
+      const byLength = (a: string, b: string) => a.length - b.length;
+      const results: Result<string, string>[] = [ok("ccc"), ok("a"), err("bb"), err("a")];
+
+      expect(results.toSorted((a, b) => compare(a, b, { value: byLength, error: byLength }))).toEqual([
+        err("a"),
+        err("bb"),
+        ok("a"),
+        ok("ccc"),
+      ]);
+    });
+
+    test("throws for values without a natural order", () => {
+      expect(() => compare(ok({ id: 1 }), ok({ id: 2 }))).toThrow(TypeError);
+      expect(compare(ok({ id: 1 }), err("a"))).toBe(1);
+    });
+  });
+
   describe("tapErr function", () => {
     test("executes function for Err without changing the Result", () => {
       const error = "something went wrong";
@@ -830,6 +1095,338 @@ describe("Result", () => {
         expect(result.error).toBe("async operation failed");
       }
     });
+    test("widens the error type across heterogeneous async steps", async () => {
+      type ParseError = { type: "PARSE" };
+      type NetworkError = { type: "NETWORK"; status: number };
+
+      const parse = (input: string): Result<number, ParseError> =>
+        Number.isNaN(Number(input)) ? err({ type: "PARSE" }) : ok(Number(input));
+      const fetchName = async (id: number): Promise<Result<string, NetworkError>> =>
+        id > 0 ? ok(`user-${id}`) : err({ type: "NETWORK", status: 404 });
+
+      const named: Result<string, ParseError | NetworkError> = await andThen(parse("3"), fetchName);
+      const failed: Result<string, ParseError | NetworkError> = await andThen(parse("-1"), fetchName);
+
+      expect(isOk(named)).toBe(true);
+      if (isOk(named)) {
+        expect(named.value).toBe("user-3");
+      }
+      expect(isErr(failed)).toBe(true);
+      if (isErr(failed)) {
+        expect(failed.error).toEqual({ type: "NETWORK", status: 404 });
+      }
+    });
+  });
+
+  describe("async combinators", () => {
+    const fetchUser = async (id: number): Promise<Result<{ id: number; name: string }, string>> =>
+      id > 0 ? ok({ id, name: "Alice" }) : err("Invalid ID");
+
+    test("mapAsync accepts Results and Promises with sync or async functions", async () => {
+      expect(await mapAsync(ok(21), (n) => n * 2)).toEqual(ok(42));
+      expect(await mapAsync(fetchUser(1), async (user) => user.name)).toEqual(ok("Alice"));
+      expect(await mapAsync(fetchUser(0), (user) => user.name)).toEqual(err("Invalid ID"));
+    });
+
+    test("mapErrAsync transforms only errors", async () => {
+      expect(await mapErrAsync(fetchUser(0), async (message) => message.length)).toEqual(err(10));
+      expect(await mapErrAsync(ok<number, string>(1), (message) => message.length)).toEqual(ok(1));
+    });
+
+    test("flatMapAsync chains steps and widens the error type", async () => {
+      type PostError = { type: "NO_POSTS" };
+      const fetchPosts = async (user: { id: number }): Promise<Result<string[], PostError>> =>
+        user.id === 1 ? ok(["Hello"]) : err({ type: "NO_POSTS" });
+
+      const posts: Result<string[], string | PostError> = await flatMapAsync(fetchUser(1), fetchPosts);
+      const missing = await flatMapAsync(fetchUser(2), fetchPosts);
+
+      expect(posts).toEqual(ok(["Hello"]));
+      expect(missing).toEqual(err({ type: "NO_POSTS" }));
+    });
+
+    test("tapAsync waits for the side effect and returns the Result unchanged", async () => {
+      const seen: string[] = [];
+      const result = await tapAsync(fetchUser(1), async (user) => {
+        await Promise.resolve();
+        seen.push(user.name);
+      });
+      await tapAsync(fetchUser(0), (user) => {
+        seen.push(user.name);
+      });
+
+      expect(seen).toEqual(["Alice"]);
+      expect(result).toEqual(ok({ id: 1, name: "Alice" }));
+    });
+
+    test("matchAsync awaits the matching handler", async () => {
+      const render = (input: Promise<Result<{ name: string }, string>>) =>
+        matchAsync(input, {
+          ok: async (user) => `Hello, ${user.name}`,
+          err: (error) => `Failed: ${error}`,
+        });
+
+      expect(await render(fetchUser(1))).toBe("Hello, Alice");
+      expect(await render(fetchUser(0))).toBe("Failed: Invalid ID");
+    });
+
+    test("unwrapOrAsync falls back to the default", async () => {
+      expect(
+        await unwrapOrAsync(
+          mapAsync(fetchUser(1), (user) => user.name),
+          "anonymous",
+        ),
+      ).toBe("Alice");
+      expect(
+        await unwrapOrAsync(
+          mapAsync(fetchUser(0), (user) => user.name),
+          "anonymous",
+        ),
+      ).toBe("anonymous");
+    });
+
+    test("combineAsync waits for every input and keeps tuple types", async () => {
+      const result = await combineAsync([fetchUser(1), ok(42), Promise.resolve(ok("x"))]);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        const [user, answer, label]: [{ id: number; name: string }, number, string] = result.value;
+        expect(user.name).toBe("Alice");
+        expect(answer).toBe(42);
+        expect(label).toBe("x");
+      }
+    });
+
+    test("combineAsync returns the first Err in input order", async () => {
+      const slowErr = new Promise<Result<number, string>>((resolve) => setTimeout(() => resolve(err("first")), 5));
+
+      expect(await combineAsync([ok(1), slowErr, Promise.resolve(err("second"))])).toEqual(err("first"));
+      expect(await combineAsync([])).toEqual(ok([]));
+    });
+  });
+
+  describe("traverseAsync function", () => {
+    const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    test("returns values in input order", async () => {
+      const result = await traverseAsync([30, 10, 20], async (ms) => {
+        await delay(ms);
+        return ok(ms * 2);
+      });
+
+      expect(result).toEqual(ok([60, 20, 40]));
+    });
+
+    test("never runs more tasks than the concurrency limit", async () => {
+      let active = 0;
+      let peak = 0;
+
+      const result = await traverseAsync(
+        [1, 2, 3, 4, 5, 6, 7],
+        async (n) => {
+          active++;
+          peak = Math.max(peak, active);
+          await delay(5);
+          active--;
+          return ok(n);
+        },
+        { concurrency: 3 },
+      );
+
+      expect(peak).toBe(3);
+      expect(result).toEqual(ok([1, 2, 3, 4, 5, 6, 7]));
+    });
+
+    test("accepts synchronous Results and passes the index", async () => {
+      const result = await traverseAsync(["a", "b"], (item, index) => ok(`${index}:${item}`), { concurrency: 1 });
+
+      expect(result).toEqual(ok(["0:a", "1:b"]));
+    });
+
+    test("fail-fast stops starting tasks, aborts in-flight ones and returns the first error", async () => {
+      const started: number[] = [];
+      let abortedSignal: AbortSignal | undefined;
+
+      const result = await traverseAsync(
+        [1, 2, 3, 4, 5],
+        async (n, _index, signal): Promise<Result<number, string>> => {
+          started.push(n);
+          if (n === 1) {
+            abortedSignal = signal;
+            await delay(50);
+            return ok(n);
+          }
+          await delay(1);
+          return n === 2 ? err("two failed") : ok(n);
+        },
+        { concurrency: 2 },
+      );
+
+      expect(result).toEqual(err("two failed"));
+      expect(started).toEqual([1, 2]);
+      expect(abortedSignal?.aborted).toBe(true);
+    });
+
+    test("collect-all runs every task and returns all errors in input order", async () => {
+      const started: number[] = [];
+
+      const result = await traverseAsync(
+        [1, 2, 3, 4],
+        async (n) => {
+          started.push(n);
+          await delay(5 - n);
+          return n % 2 === 0 ? err(`${n} is even`) : ok(n);
+        },
+        { concurrency: 2, mode: "collect-all" },
+      );
+
+      expect(started).toEqual([1, 2, 3, 4]);
+      expect(result).toEqual(err(["2 is even", "4 is even"]));
+    });
+
+    test("returns ok([]) for no items", async () => {
+      expect(await traverseAsync([], () => ok(1))).toEqual(ok([]));
+    });
+
+    test("rejects an invalid concurrency", async () => {
+      await expect(traverseAsync([1], (n) => ok(n), { concurrency: 0 })).rejects.toThrow(RangeError);
+    });
+
+    test("rejects and aborts remaining work when a task throws", async () => {
+      let signal: AbortSignal | undefined;
+
+      const promise = traverseAsync([1, 2], async (n, _index, taskSignal) => {
+        if (n === 1) {
+          signal = taskSignal;
+          await delay(5);
+          throw new Error("boom");
+        }
+        await delay(20);
+        return ok(n);
+      });
+
+      await expect(promise).rejects.toThrow("boom");
+      expect(signal?.aborted).toBe(true);
+    });
+  });
+
+  describe("gen function", () => {
+    type ParseError = { type: "PARSE"; input: string };
+    type RangeFailure = { type: "RANGE"; value: number };
+
+    const parse = (input: string): Result<number, ParseError> => {
+      const n = Number(input);
+      return Number.isNaN(n) ? err({ type: "PARSE", input }) : ok(n);
+    };
+    const positive = (n: number): Result<number, RangeFailure> => (n > 0 ? ok(n) : err({ type: "RANGE", value: n }));
+
+    test("unwraps Ok values with yield*", () => {
+      const result: Result<number, ParseError | RangeFailure> = gen(function* () {
+        const a = yield* parse("4");
+        const b = yield* positive(a);
+        return a + b;
+      });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value).toBe(8);
+      }
+    });
+
+    test("short-circuits on the first Err", () => {
+      let reachedEnd = false;
+      const result = gen(function* () {
+        const a = yield* parse("-3");
+        const b = yield* positive(a);
+        const c = yield* parse("oops");
+        reachedEnd = true;
+        return b + c;
+      });
+
+      expect(reachedEnd).toBe(false);
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({ type: "RANGE", value: -3 });
+      }
+    });
+
+    test("returns Ok when nothing is yielded", () => {
+      // eslint-disable-next-line require-yield
+      const result: Result<string, never> = gen(function* () {
+        return "done";
+      });
+
+      expect(result).toEqual(ok("done"));
+    });
+
+    test("runs finally blocks when stopped early", () => {
+      const cleanup: string[] = [];
+      const result = gen(function* () {
+        try {
+          yield* err("boom");
+          return 1;
+        } finally {
+          cleanup.push("closed");
+        }
+      });
+
+      expect(cleanup).toEqual(["closed"]);
+      expect(result).toEqual(err("boom"));
+    });
+
+    test("agrees with flatMap chains", () => {
+      for (const input of ["4", "-4", "x"]) {
+        const viaGen = gen(function* () {
+          const n = yield* parse(input);
+          return yield* positive(n);
+        });
+        const viaFlatMap = flatMap(parse(input), positive);
+
+        expect(viaGen).toEqual(viaFlatMap);
+      }
+    });
+  });
+
+  describe("genAsync function", () => {
+    type NotFound = { type: "NOT_FOUND"; id: number };
+    type NetworkError = { type: "NETWORK" };
+
+    const fetchUser = async (id: number): Promise<Result<{ id: number; name: string }, NotFound>> =>
+      id === 1 ? ok({ id, name: "Alice" }) : err({ type: "NOT_FOUND", id });
+    const fetchPosts = async (userId: number): Promise<Result<string[], NetworkError>> =>
+      userId === 1 ? ok(["Hello", "World"]) : err({ type: "NETWORK" });
+
+    test("unwraps awaited Results with yield*", async () => {
+      const result: Result<string, NotFound | NetworkError> = await genAsync(async function* () {
+        const user = yield* await fetchUser(1);
+        const posts = yield* await fetchPosts(user.id);
+        const count = yield* ok(posts.length);
+        return `${user.name}: ${count}`;
+      });
+
+      expect(result).toEqual(ok("Alice: 2"));
+    });
+
+    test("short-circuits on the first Err", async () => {
+      let postsFetched = false;
+      const result = await genAsync(async function* () {
+        const user = yield* await fetchUser(2);
+        postsFetched = true;
+        return yield* await fetchPosts(user.id);
+      });
+
+      expect(postsFetched).toBe(false);
+      expect(result).toEqual(err({ type: "NOT_FOUND", id: 2 }));
+    });
+
+    test("works with the Promise<Result> values andThen produces", async () => {
+      const result = await genAsync(async function* () {
+        const posts = yield* await andThen(fetchUser(1), (user) => fetchPosts(user.id));
+        return posts.join(" ");
+      });
+
+      expect(result).toEqual(ok("Hello World"));
+    });
   });
 
   describe("Result composition", () => {
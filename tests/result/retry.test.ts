@@ -0,0 +1,137 @@
+import { describe, test, expect } from "bun:test";
+
+import { type Result, ok, err, fromPromiseWithError, retry } from "@/result";
+
+type HttpError = { status: number };
+
+// Fails with the given statuses in order, then succeeds
+const flaky = (statuses: number[]) => {
+  const calls: number[] = [];
+  const task = async (attempt: number): Promise<Result<string, HttpError>> => {
+    calls.push(attempt);
+    const status = statuses.shift();
+    return status === undefined ? ok("done") : err({ status });
+  };
+  return { task, calls };
+};
+
+const recordSleeps = () => {
+  const delays: number[] = [];
+  const sleep = async (ms: number) => {
+    delays.push(ms);
+  };
+  return { delays, sleep };
+};
+
+describe("retry", () => {
+  test("returns the first Ok without retrying", async () => {
+    const { task, calls } = flaky([]);
+
+    expect(await retry(task, { maxAttempts: 3 })).toEqual(ok("done"));
+    expect(calls).toEqual([1]);
+  });
+
+  test("retries until the task succeeds", async () => {
+    const { task, calls } = flaky([503, 503]);
+    const { sleep } = recordSleeps();
+
+    expect(await retry(task, { maxAttempts: 3, sleep })).toEqual(ok("done"));
+    expect(calls).toEqual([1, 2, 3]);
+  });
+
+  test("returns the last Err once attempts run out", async () => {
+    const { task, calls } = flaky([500, 502, 503, 504]);
+    const { sleep } = recordSleeps();
+
+    expect(await retry(task, { maxAttempts: 3, sleep })).toEqual(err({ status: 503 }));
+    expect(calls).toEqual([1, 2, 3]);
+  });
+
+  test("stops when shouldRetry declines the typed error", async () => {
+    const { task, calls } = flaky([503, 404, 503]);
+    const { sleep } = recordSleeps();
+
+    const result = await retry(task, {
+      maxAttempts: 5,
+      shouldRetry: (error) => error.status >= 500,
+      sleep,
+    });
+
+    expect(result).toEqual(err({ status: 404 }));
+    expect(calls).toEqual([1, 2]);
+  });
+
+  describe("backoff", () => {
+    test("fixed waits the same delay before every retry", async () => {
+      const { delays, sleep } = recordSleeps();
+
+      await retry(flaky([1, 2, 3]).task, { maxAttempts: 4, backoff: { type: "fixed", delay: 250 }, sleep });
+
+      expect(delays).toEqual([250, 250, 250]);
+    });
+
+    test("exponential grows by factor and respects maxDelay", async () => {
+      const { delays, sleep } = recordSleeps();
+
+      await retry(flaky([1, 2, 3, 4, 5]).task, {
+        maxAttempts: 6,
+        backoff: { type: "exponential", initialDelay: 100, factor: 3, maxDelay: 2000 },
+        sleep,
+      });
+
+      expect(delays).toEqual([100, 300, 900, 2000, 2000]);
+    });
+
+    test("exponential doubles by default", async () => {
+      const { delays, sleep } = recordSleeps();
+
+      await retry(flaky([1, 2, 3]).task, {
+        maxAttempts: 4,
+        backoff: { type: "exponential", initialDelay: 50 },
+        sleep,
+      });
+
+      expect(delays).toEqual([50, 100, 200]);
+    });
+
+    test("jittered scales the exponential delay by the random source", async () => {
+      const { delays, sleep } = recordSleeps();
+      const randoms = [0.5, 0, 0.25];
+
+      await retry(flaky([1, 2, 3]).task, {
+        maxAttempts: 4,
+        backoff: { type: "jittered", initialDelay: 100 },
+        sleep,
+        random: () => randoms.shift() ?? 0,
+      });
+
+      expect(delays).toEqual([50, 0, 100]);
+    });
+
+    test("uses real timers by default", async () => {
+      const start = Date.now();
+
+      await retry(flaky([1]).task, { maxAttempts: 2, backoff: { type: "fixed", delay: 20 } });
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+    });
+  });
+
+  test("works with fromPromiseWithError", async () => {
+    let calls = 0;
+    const result = await retry(
+      () =>
+        fromPromiseWithError(
+          calls++ === 0 ? Promise.reject(new Error("flaky")) : Promise.resolve(42),
+          (error) => (error as Error).message,
+        ),
+      { maxAttempts: 2, sleep: async () => {} },
+    );
+
+    expect(result).toEqual(ok(42));
+  });
+
+  test("rejects when maxAttempts is less than 1", async () => {
+    await expect(retry(flaky([]).task, { maxAttempts: 0 })).rejects.toThrow(RangeError);
+  });
+});
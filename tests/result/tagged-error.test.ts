@@ -0,0 +1,135 @@
+import { describe, test, expect } from "bun:test";
+
+import { type Result, type TagOf, TaggedError, ok, err, isErr, catchTag, catchTags, TimeoutError } from "@/result";
+
+// eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+class NotFound extends TaggedError("NotFound")<{ id: string }>() {}
+// eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+class Invalid extends TaggedError("Invalid")<{ reason: string }>() {}
+// eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+class Unauthorized extends TaggedError("Unauthorized")() {}
+
+type User = { id: string; name: string };
+
+const findUser = (id: string): Result<User, NotFound | Invalid | Unauthorized> => {
+  if (id === "") return err(new Invalid({ reason: "empty id" }));
+  if (id === "secret") return err(new Unauthorized());
+  if (id !== "1") return err(new NotFound({ id }));
+  return ok({ id, name: "Alice" });
+};
+
+describe("TaggedError", () => {
+  test("creates Error subclasses with a literal tag and properties", () => {
+    const error = new NotFound({ id: "42" });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toBeInstanceOf(NotFound);
+    expect(error._tag).toBe("NotFound");
+    expect(error.name).toBe("NotFound");
+    expect(error.message).toBe("NotFound");
+    expect(error.id).toBe("42");
+    expect(error.stack).toBeString();
+  });
+
+  test("uses message and cause properties for the Error", () => {
+    const cause = new Error("socket closed");
+    // eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+    const DbError = TaggedError("DbError")<{ message: string; cause: unknown }>();
+    const error = new DbError({ message: "query failed", cause });
+
+    expect(error.message).toBe("query failed");
+    expect(error.cause).toBe(cause);
+  });
+
+  test("allows omitting the properties when there are none", () => {
+    expect(new Unauthorized()._tag).toBe("Unauthorized");
+  });
+
+  test("keeps the tag when the properties contain _tag or name", () => {
+    // eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+    class Spoofed extends TaggedError("Spoofed")<{ id: string }>() {}
+    const error = new Spoofed({ id: "1", _tag: "NotFound", name: "NotFound" } as { id: string });
+
+    expect(error._tag).toBe("Spoofed");
+    expect(error.name).toBe("Spoofed");
+    expect(error.id).toBe("1");
+    expect(catchTag(err(error), "Spoofed", () => ok("handled"))).toEqual(ok("handled"));
+  });
+
+  test("builds the library's own error types", () => {
+    expect(new TimeoutError(10)._tag).toBe("TimeoutError");
+  });
+
+  test("TagOf extracts the tags of an error union", () => {
+    const tags: TagOf<NotFound | Invalid | string>[] = ["NotFound", "Invalid"];
+
+    expect(tags).toHaveLength(2);
+  });
+});
+
+describe("catchTag", () => {
+  test("recovers the matching variant and narrows the error union", () => {
+    const result: Result<User, Invalid | Unauthorized> = catchTag(findUser("7"), "NotFound", (error) =>
+      ok({ id: error.id, name: "Guest" }),
+    );
+
+    expect(result).toEqual(ok({ id: "7", name: "Guest" }));
+  });
+
+  test("leaves other variants and Ok untouched", () => {
+    let calls = 0;
+    const handler = () => {
+      calls++;
+      return ok({ id: "?", name: "Guest" });
+    };
+
+    expect(catchTag(findUser("1"), "NotFound", handler)).toEqual(ok({ id: "1", name: "Alice" }));
+    const invalid = catchTag(findUser(""), "NotFound", handler);
+    expect(isErr(invalid) && invalid.error).toBeInstanceOf(Invalid);
+    expect(calls).toBe(0);
+  });
+
+  test("can map a variant to a different error", () => {
+    // eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+    class BadRequest extends TaggedError("BadRequest")<{ message: string }>() {}
+
+    const result: Result<User, NotFound | Unauthorized | BadRequest> = catchTag(findUser(""), "Invalid", (error) =>
+      err(new BadRequest({ message: error.reason })),
+    );
+
+    expect(isErr(result) && result.error.message).toBe("empty id");
+  });
+
+  test("works with plain tagged objects", () => {
+    type ParseError = { _tag: "ParseError"; input: string };
+    const parsed: Result<number, ParseError | string> = err({ _tag: "ParseError", input: "abc" });
+
+    const result: Result<number, string> = catchTag(parsed, "ParseError", () => ok(0));
+
+    expect(result).toEqual(ok(0));
+  });
+});
+
+describe("catchTags", () => {
+  test("handles several variants and narrows the error union", () => {
+    const handle = (id: string): Result<User | null, Unauthorized> =>
+      catchTags(findUser(id), {
+        NotFound: () => ok(null),
+        Invalid: (error) => ok({ id: "", name: error.reason }),
+      });
+
+    expect(handle("1")).toEqual(ok({ id: "1", name: "Alice" }));
+    expect(handle("7")).toEqual(ok(null));
+    expect(handle("")).toEqual(ok({ id: "", name: "empty id" }));
+    const unauthorized = handle("secret");
+    expect(isErr(unauthorized) && unauthorized.error).toBeInstanceOf(Unauthorized);
+  });
+
+  test("adds errors returned by handlers", () => {
+    const result: Result<User, Invalid | Unauthorized | "missing"> = catchTags(findUser("7"), {
+      NotFound: () => err("missing" as const),
+    });
+
+    expect(result).toEqual(err("missing"));
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, test, expect } from "bun:test";
+
+import "@/testing/bun";
+import { isSome, none, some } from "@/option";
+import { type Result, ok, err, combine, combineAll, flatMap, map } from "@/result";
+import { checkMonadLaws } from "@/testing";
+import {
+  type Arbitrary,
+  arbArray,
+  arbBoolean,
+  arbConstant,
+  arbInteger,
+  arbOneOf,
+  arbOption,
+  arbResult,
+  arbString,
+  createRandom,
+  forAll,
+  sample,
+  PropertyFailure,
+} from "@/testing/arbitrary";
+
+const results = arbResult(arbInteger(), arbString({ maxLength: 5 }));
+
+const shrinks = <T>(arbitrary: Arbitrary<T>, value: T): T[] => [...arbitrary.shrink(value)];
+
+describe("Arbitraries", () => {
+  describe("createRandom", () => {
+    test("yields the same sequence for the same seed", () => {
+      const a = createRandom(42);
+      const b = createRandom(42);
+      const first = [a(), a(), a()];
+
+      expect([b(), b(), b()]).toEqual(first);
+      expect(first.every((n) => n >= 0 && n < 1)).toBe(true);
+      expect(createRandom(43)()).not.toBe(first[0]);
+    });
+  });
+
+  describe("generators", () => {
+    test("generate values within their bounds", () => {
+      const values = sample(arbInteger({ min: 5, max: 7 }), 200, 1);
+
+      expect(values.every((n) => Number.isInteger(n) && n >= 5 && n <= 7)).toBe(true);
+      expect(new Set(values)).toEqual(new Set([5, 6, 7]));
+      expect(
+        sample(arbString({ minLength: 2, maxLength: 3 }), 50, 1).every((s) => s.length >= 2 && s.length <= 3),
+      ).toBe(true);
+      expect(sample(arbArray(arbBoolean(), { maxLength: 2 }), 50, 1).every((a) => a.length <= 2)).toBe(true);
+      expect(sample(arbOneOf(["a", "b"]), 50, 1).every((s) => s === "a" || s === "b")).toBe(true);
+      expect(sample(arbConstant(7), 3, 1)).toEqual([7, 7, 7]);
+    });
+
+    test("generate both variants of Results and Options", () => {
+      const generated = sample(results, 100, 7);
+      const options = sample(arbOption(arbInteger()), 100, 7);
+
+      expect(generated.some((result) => result.ok)).toBe(true);
+      expect(generated.some((result) => !result.ok)).toBe(true);
+      expect(options.some((option) => isSome(option))).toBe(true);
+      expect(options.some((option) => !isSome(option))).toBe(true);
+    });
+
+    test("sample is reproducible", () => {
+      expect(sample(results, 20, 99)).toEqual(sample(results, 20, 99));
+    });
+
+    test("reject invalid bounds", () => {
+      expect(() => arbInteger({ min: 2, max: 1 })).toThrow(RangeError);
+      expect(() => arbInteger({ min: 0.5 })).toThrow(RangeError);
+      expect(() => arbArray(arbBoolean(), { minLength: -1 })).toThrow(RangeError);
+    });
+  });
+
+  describe("shrinking", () => {
+    test("integers shrink towards zero or the nearest bound", () => {
+      expect(shrinks(arbInteger(), 10)).toEqual([0, 5, 8, 9]);
+      expect(shrinks(arbInteger(), -4)).toEqual([0, -2, -3]);
+      expect(shrinks(arbInteger({ min: 3, max: 9 }), 5)).toEqual([3, 4]);
+      expect(shrinks(arbInteger(), 0)).toEqual([]);
+    });
+
+    test("arrays shrink to shorter arrays, then to simpler elements", () => {
+      expect(shrinks(arbArray(arbBoolean()), [true, false])).toEqual([[], [true], [false], [false, false]]);
+      expect(shrinks(arbArray(arbBoolean(), { minLength: 2 }), [true, false])).toEqual([[false, false]]);
+    });
+
+    test("Results keep their variant and Options shrink to None first", () => {
+      expect(shrinks(results, ok(2))).toEqual([ok(0), ok(1)]);
+      expect(shrinks(results, err("b"))).toEqual([err(""), err("a")]);
+      expect(shrinks(arbOption(arbInteger()), some(2))).toEqual([none(), some(0), some(1)]);
+      expect(shrinks(arbOption(arbInteger()), none())).toEqual([]);
+    });
+  });
+
+  describe("forAll", () => {
+    test("returns the runs and seed when the property holds", () => {
+      expect(forAll([arbInteger()], (n) => n + 0 === n, { seed: 1, runs: 50 })).toBeOk({ runs: 50, seed: 1 });
+    });
+
+    test("shrinks a failing input to a minimal counterexample", () => {
+      const property = forAll([arbArray(arbInteger())], (values) => values.every((n) => n < 100), { seed: 3 });
+
+      expect(property).toBeErr(expect.any(PropertyFailure));
+      const failure = property.ok ? undefined : property.error;
+      expect(failure?._tag).toBe("PropertyFailure");
+      expect(failure?.counterexample).toEqual([[100]]);
+      expect(failure?.seed).toBe(3);
+      expect(failure?.message).toBe(`Property failed after ${failure?.run} run(s) with seed 3: [[100]]`);
+    });
+
+    test("treats a throwing property as failed and keeps the error", () => {
+      const property = forAll([arbInteger({ min: 1, max: 10 })], (n) => {
+        expect(n).toBeLessThan(5);
+      });
+
+      expect(property).toBeErr();
+      const failure = property.ok ? undefined : property.error;
+      expect(failure?.counterexample).toEqual([5]);
+      expect(failure?.cause).toBeInstanceOf(Error);
+    });
+
+    test("replays a failure from its seed", () => {
+      const property = (a: number, b: number) => a + b !== 7;
+      const first = forAll([arbInteger({ min: 0, max: 10 }), arbInteger({ min: 0, max: 10 })], property);
+      const failure = first.ok ? undefined : first.error;
+
+      expect(failure).toBeDefined();
+      const replay = forAll([arbInteger({ min: 0, max: 10 }), arbInteger({ min: 0, max: 10 })], property, {
+        seed: failure!.seed,
+      });
+      expect(replay).toBeErr(expect.objectContaining({ run: failure!.run, original: failure!.original }));
+    });
+
+    test("rejects fewer than one run", () => {
+      expect(() => forAll([arbBoolean()], () => true, { runs: 0 })).toThrow(RangeError);
+    });
+  });
+
+  describe("properties of Result combinators", () => {
+    const resultArrays = arbArray(results);
+
+    test("combine is Ok exactly when every Result is Ok, with the values in order", () => {
+      const property = forAll(
+        [resultArrays],
+        (rs) => {
+          const combined = combine(rs);
+          const errors = rs.filter((r) => !r.ok);
+          if (errors.length === 0) return combined.ok && combined.value.length === rs.length;
+          return !combined.ok && combined.error === (errors[0] as { error: string }).error;
+        },
+        { seed: 2024 },
+      );
+
+      expect(property).toBeOk();
+    });
+
+    test("combineAll collects every error in order", () => {
+      const property = forAll(
+        [resultArrays],
+        (rs) => {
+          const combined = combineAll(rs);
+          const errors = rs.flatMap((r) => (r.ok ? [] : [r.error]));
+          return combined.ok ? errors.length === 0 : JSON.stringify(combined.error) === JSON.stringify(errors);
+        },
+        { seed: 2024 },
+      );
+
+      expect(property).toBeOk();
+    });
+
+    test("flatMap with an Ok-returning function is map", () => {
+      const property = forAll(
+        [results, arbInteger()],
+        (r, n) => JSON.stringify(flatMap(r, (x) => ok(x * n))) === JSON.stringify(map(r, (x) => x * n)),
+        { seed: 2024 },
+      );
+
+      expect(property).toBeOk();
+    });
+
+    test("ok and flatMap obey the monad laws on generated samples", () => {
+      const instances: Result<number, string>[] = sample(results, 30, 5);
+      const chains = [
+        (n: number): Result<number, string> => (n % 3 === 0 ? err(`divisible: ${n}`) : ok(n + 1)),
+        (n: number): Result<number, string> => ok(n * 2),
+      ];
+
+      expect(checkMonadLaws({ of: ok, flatMap }, { instances, values: sample(arbInteger(), 20, 5), chains })).toEqual(
+        [],
+      );
+    });
+  });
+});
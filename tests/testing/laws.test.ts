@@ -0,0 +1,172 @@
+import { describe, test, expect } from "bun:test";
+
+import { type Option, some, none, map as mapOption, flatMap as flatMapOption } from "@/option";
+import { type Result, ok, err, map as mapResult, flatMap as flatMapResult, equals as equalsResult } from "@/result";
+import { LawsViolated, checkFunctorLaws, checkMonadLaws, functorLaws, monadLaws } from "@/testing";
+import { arbInteger, arbOneOf, arbOption, arbResult, arbString, forAll } from "@/testing/arbitrary";
+
+const functions = [(n: number) => n + 1, (n: number) => n * 2, (n: number) => -n];
+
+describe("Law checks", () => {
+  describe("Result", () => {
+    const instances: Result<number, string>[] = [ok(0), ok(7), ok(-3), err("boom"), err("")];
+    const chains = [
+      (n: number): Result<number, string> => (n > 0 ? ok(n - 1) : err("not positive")),
+      (n: number): Result<number, string> => ok(n * 10),
+      (n: number): Result<number, string> => (n % 2 === 0 ? ok(n / 2) : err(`odd: ${n}`)),
+    ];
+
+    test("map obeys the functor laws", () => {
+      expect(checkFunctorLaws({ map: mapResult }, { instances, functions })).toEqual([]);
+    });
+
+    test("ok and flatMap obey the monad laws", () => {
+      expect(checkMonadLaws({ of: ok, flatMap: flatMapResult }, { instances, values: [-1, 0, 4, 5], chains })).toEqual(
+        [],
+      );
+    });
+
+    test("uses the given equality", () => {
+      const violations = checkMonadLaws(
+        { of: ok, flatMap: flatMapResult, equals: (a, b) => equalsResult(a, b) },
+        { instances, values: [1, 2], chains },
+      );
+
+      expect(violations).toEqual([]);
+    });
+  });
+
+  describe("Option", () => {
+    const instances: Option<number>[] = [some(0), some(7), some(-3), none()];
+    const chains = [
+      (n: number): Option<number> => (n > 0 ? some(n - 1) : none()),
+      (n: number): Option<number> => some(n * 10),
+    ];
+
+    test("map obeys the functor laws", () => {
+      expect(checkFunctorLaws({ map: mapOption }, { instances, functions })).toEqual([]);
+    });
+
+    test("some and flatMap obey the monad laws", () => {
+      expect(checkMonadLaws({ of: some, flatMap: flatMapOption }, { instances, values: [-1, 0, 4], chains })).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe("violations", () => {
+    test("reports a map that does not preserve identity", () => {
+      // Turns every Err into a generic one, so mapping the identity changes the Result
+      const lossyMap = (result: Result<number, string>, fn: (value: number) => number): Result<number, string> =>
+        result.ok ? ok(fn(result.value)) : err("failed");
+      const instances: Result<number, string>[] = [ok(1), err("boom")];
+
+      const violations = checkFunctorLaws({ map: lossyMap }, { instances });
+
+      expect(violations).toEqual([
+        { law: "functor identity", inputs: [err("boom")], left: err("failed"), right: err("boom") },
+      ]);
+    });
+
+    test("reports a map that is not compositional", () => {
+      // Applies the function twice, which only composes for functions that commute
+      const twiceMap = (option: Option<number>, fn: (value: number) => number): Option<number> =>
+        option.some ? some(fn(fn(option.value))) : option;
+      const [increment, double] = functions as [(n: number) => number, (n: number) => number];
+
+      const violations = checkFunctorLaws({ map: twiceMap }, { instances: [some(1)], functions: [increment, double] });
+
+      expect(violations).toEqual([
+        { law: "functor composition", inputs: [some(1), increment, double], left: some(12), right: some(10) },
+        { law: "functor composition", inputs: [some(1), double, increment], left: some(6), right: some(7) },
+      ]);
+    });
+
+    test("reports a flatMap that breaks the monad laws", () => {
+      // Swallows errors returned by the chained function
+      const forgivingFlatMap = (
+        result: Result<number, string>,
+        fn: (value: number) => Result<number, string>,
+      ): Result<number, string> => {
+        if (!result.ok) return result;
+        const next = fn(result.value);
+        return next.ok ? next : ok(result.value);
+      };
+      const chains = [(n: number): Result<number, string> => (n > 0 ? ok(n) : err("not positive"))];
+
+      const violations = checkMonadLaws(
+        { of: ok, flatMap: forgivingFlatMap },
+        { instances: [ok(1)], values: [0], chains },
+      );
+
+      expect(violations).toEqual([
+        { law: "monad left identity", inputs: [0, chains[0]], left: ok(0), right: err("not positive") },
+      ]);
+    });
+  });
+
+  describe("law properties", () => {
+    const increment = (n: number) => n + 1;
+    const double = (n: number) => n * 2;
+
+    test("return true when the laws hold for the inputs", () => {
+      const chain = (n: number): Result<number, string> => (n > 0 ? ok(n - 1) : err("not positive"));
+
+      expect(functorLaws<Result<number, string>, number>({ map: mapResult })(ok(1), increment, double)).toBe(true);
+      expect(monadLaws({ of: ok, flatMap: flatMapResult })(err("boom"), 1, chain, chain)).toBe(true);
+    });
+
+    test("throw a LawsViolated naming the broken laws", () => {
+      const lossyMap = (result: Result<number, string>, fn: (value: number) => number): Result<number, string> =>
+        result.ok ? ok(fn(result.value)) : err("failed");
+      const property = functorLaws({ map: lossyMap });
+
+      expect(property(ok(1), increment, double)).toBe(true);
+      expect(() => property(err("boom"), increment, double)).toThrow(LawsViolated);
+      expect(() => property(err("boom"), increment, double)).toThrow("Violated: functor identity");
+    });
+
+    describe("with forAll", () => {
+      const arbResults = arbResult(arbInteger(), arbString());
+      const arbFunctions = arbOneOf(functions as [(n: number) => number, ...((n: number) => number)[]]);
+      const arbChains = arbOneOf([
+        (n: number): Result<number, string> => (n > 0 ? ok(n - 1) : err("not positive")),
+        (n: number): Result<number, string> => ok(n * 10),
+      ]);
+
+      test("Result map and flatMap hold for generated inputs", () => {
+        expect(forAll([arbResults, arbFunctions, arbFunctions], functorLaws({ map: mapResult }), { seed: 1 }).ok).toBe(
+          true,
+        );
+        expect(
+          forAll([arbResults, arbInteger(), arbChains, arbChains], monadLaws({ of: ok, flatMap: flatMapResult }), {
+            seed: 1,
+          }).ok,
+        ).toBe(true);
+      });
+
+      test("Option map holds for generated inputs", () => {
+        const property = forAll(
+          [arbOption(arbInteger()), arbFunctions, arbFunctions],
+          functorLaws({ map: mapOption }),
+          { seed: 1 },
+        );
+
+        expect(property.ok).toBe(true);
+      });
+
+      test("reports the broken law and shrinks to the simplest counterexample", () => {
+        const lossyMap = (result: Result<number, string>, fn: (value: number) => number): Result<number, string> =>
+          result.ok ? ok(fn(result.value)) : err("failed");
+
+        const property = forAll([arbResults, arbFunctions, arbFunctions], functorLaws({ map: lossyMap }), { seed: 1 });
+
+        expect(property.ok).toBe(false);
+        if (property.ok) return;
+        expect(property.error.counterexample).toEqual([err(""), functions[0], functions[0]]);
+        expect(property.error.cause).toBeInstanceOf(LawsViolated);
+        expect((property.error.cause as LawsViolated).message).toBe("Violated: functor identity");
+      });
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, test, expect } from "bun:test";
+
+import "@/testing/bun";
+import { none, some } from "@/option";
+import { err, ok } from "@/result";
+import { matchers } from "@/testing";
+
+const failureOf = (assertion: () => void): string => {
+  try {
+    assertion();
+  } catch (error) {
+    return Bun.stripANSI((error as Error).message);
+  }
+  throw new Error("Expected the assertion to fail");
+};
+
+describe("Result and Option matchers", () => {
+  describe("toBeOk", () => {
+    test("passes for Ok, with or without a value", () => {
+      expect(ok(1)).toBeOk();
+      expect(ok({ id: 1, tags: ["a"] })).toBeOk({ id: 1, tags: ["a"] });
+      expect(ok(undefined)).toBeOk(undefined);
+      expect(ok(42)).toBeOk(expect.any(Number));
+    });
+
+    test("fails for Err, a different value, or a non-Result", () => {
+      expect(err("boom")).not.toBeOk();
+      expect(ok(1)).not.toBeOk(2);
+      expect(ok(1)).not.toBeOk(undefined);
+      expect({ ok: true, value: 1 }).not.toBeOk();
+    });
+
+    test("reports the received variant", () => {
+      const message = failureOf(() => expect(err("boom")).toBeOk(1));
+
+      expect(message).toContain("Expected: Ok(1)");
+      expect(message).toContain('Received: Err("boom")');
+    });
+
+    test("reports negated failures", () => {
+      const message = failureOf(() => expect(ok(1)).not.toBeOk());
+
+      expect(message).toContain("Expected: not Ok");
+      expect(message).toContain("Received: Ok(1)");
+    });
+  });
+
+  describe("toBeErr", () => {
+    test("passes for Err, with or without an error", () => {
+      expect(err("boom")).toBeErr();
+      expect(err(new Error("boom"))).toBeErr(new Error("boom"));
+      expect(err({ code: 404, message: "not found" })).toBeErr(expect.objectContaining({ code: 404 }));
+    });
+
+    test("fails for Ok or a different error", () => {
+      expect(ok(1)).not.toBeErr();
+      expect(err("boom")).not.toBeErr("bang");
+    });
+
+    test("reports the received variant", () => {
+      const message = failureOf(() => expect(ok(1)).toBeErr());
+
+      expect(message).toContain("Expected: Err");
+      expect(message).toContain("Received: Ok(1)");
+    });
+  });
+
+  describe("toBeSome and toBeNone", () => {
+    test("pass for the matching variant", () => {
+      expect(some("Alice")).toBeSome();
+      expect(some("Alice")).toBeSome("Alice");
+      expect(none()).toBeNone();
+    });
+
+    test("fail for the other variant or a different value", () => {
+      expect(none()).not.toBeSome();
+      expect(some("Alice")).not.toBeSome("Bob");
+      expect(some(undefined)).not.toBeNone();
+      expect(null).not.toBeNone();
+    });
+
+    test("report the received variant", () => {
+      expect(failureOf(() => expect(none()).toBeSome(1))).toContain("Received: None");
+      expect(failureOf(() => expect(some(1)).toBeNone())).toContain("Received: Some(1)");
+      expect(failureOf(() => expect("none").toBeNone())).toContain('Received: "none"');
+    });
+  });
+
+  describe("toBeOkMatching", () => {
+    test("passes for an Ok whose value satisfies the predicate", () => {
+      expect(ok({ active: true })).toBeOkMatching((user: { active: boolean }) => user.active);
+    });
+
+    test("fails for an Err or a value that does not satisfy the predicate", () => {
+      expect(ok(1)).not.toBeOkMatching((n: number) => n > 1);
+      expect(err(2)).not.toBeOkMatching(() => true);
+    });
+
+    test("reports the received value", () => {
+      const message = failureOf(() => expect(ok(1)).toBeOkMatching((n: number) => n > 1));
+
+      expect(message).toContain("Expected: Ok with a value matching the predicate");
+      expect(message).toContain("Received: Ok(1)");
+    });
+  });
+
+  describe("matchers", () => {
+    test("uses the diff of the test framework when it has one", () => {
+      const context = {
+        isNot: false,
+        equals: Bun.deepEquals,
+        utils: {
+          printExpected: (value: unknown) => JSON.stringify(value),
+          printReceived: (value: unknown) => JSON.stringify(value),
+          diff: (expected: unknown, received: unknown) =>
+            `- ${JSON.stringify(expected)}\n+ ${JSON.stringify(received)}`,
+        },
+      };
+
+      const result = matchers.toBeOk.call(context, ok({ id: 1 }), { id: 2 });
+
+      expect(result.pass).toBe(false);
+      expect(result.message()).toBe('Expected: Ok({"id":2})\nReceived: Ok({"id":1})\n\n- {"id":2}\n+ {"id":1}');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test, expect } from "bun:test";
+
+import { some, none } from "@/option";
+import { ok, err, TaggedError } from "@/result";
+import { deepEqual, naturalOrder } from "@/utils";
+
+// eslint-disable-next-line unicorn/throw-new-error -- TaggedError is a class factory, not a constructor
+class NotFound extends TaggedError("NotFound")<{ id: string }>() {}
+
+describe("deepEqual", () => {
+  test("compares primitives with Object.is", () => {
+    expect(deepEqual(1, 1)).toBe(true);
+    expect(deepEqual(Number.NaN, Number.NaN)).toBe(true);
+    expect(deepEqual(0, -0)).toBe(false);
+    expect(deepEqual("1", 1)).toBe(false);
+    expect(deepEqual(null, undefined)).toBe(false);
+  });
+
+  test("compares arrays and plain objects by contents", () => {
+    expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true);
+    expect(deepEqual([1, 2], [1, 2, 3])).toBe(false);
+    expect(deepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(deepEqual({ a: 1, b: 2 }, { b: 2, a: 1 })).toBe(true);
+  });
+
+  test("requires the same prototype", () => {
+    expect(deepEqual([1], { 0: 1 })).toBe(false);
+    expect(deepEqual(new NotFound({ id: "1" }), { _tag: "NotFound", id: "1" })).toBe(false);
+  });
+
+  test("compares Dates, RegExps, Maps and Sets by contents", () => {
+    expect(deepEqual(new Date(0), new Date(0))).toBe(true);
+    expect(deepEqual(new Date(0), new Date(1))).toBe(false);
+    expect(deepEqual(/a/g, /a/g)).toBe(true);
+    expect(deepEqual(/a/g, /a/i)).toBe(false);
+    expect(deepEqual(new Map([["a", { n: 1 }]]), new Map([["a", { n: 1 }]]))).toBe(true);
+    expect(deepEqual(new Map([["a", 1]]), new Map([["b", 1]]))).toBe(false);
+    expect(deepEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+    expect(deepEqual(new Set([1]), new Set([1, 2]))).toBe(false);
+  });
+
+  test("matches Set members and Map keys structurally", () => {
+    const shared = { n: 0 };
+
+    expect(deepEqual(new Set([{ a: 1 }]), new Set([{ a: 1 }]))).toBe(true);
+    expect(deepEqual(ok(new Set([shared, { a: 1 }])), ok(new Set([{ a: 1 }, shared])))).toBe(true);
+    expect(deepEqual(new Set([{ a: 1 }, { a: 1 }]), new Set([{ a: 1 }, { a: 2 }]))).toBe(false);
+    expect(deepEqual(new Map([[{ id: 1 }, "a"]]), new Map([[{ id: 1 }, "a"]]))).toBe(true);
+    expect(deepEqual(new Map([[{ id: 1 }, "a"]]), new Map([[{ id: 1 }, "b"]]))).toBe(false);
+    expect(deepEqual(new Map([[{ id: 1 }, "a"]]), new Map([[{ id: 2 }, "a"]]))).toBe(false);
+  });
+
+  test("compares Errors by name, message, cause and properties", () => {
+    expect(deepEqual(new Error("boom"), new Error("boom"))).toBe(true);
+    expect(deepEqual(new Error("boom"), new Error("bang"))).toBe(false);
+    expect(deepEqual(new Error("boom", { cause: 1 }), new Error("boom", { cause: 2 }))).toBe(false);
+    expect(deepEqual(new NotFound({ id: "1" }), new NotFound({ id: "1" }))).toBe(true);
+    expect(deepEqual(new NotFound({ id: "1" }), new NotFound({ id: "2" }))).toBe(false);
+  });
+
+  test("compares Results and Options structurally", () => {
+    expect(deepEqual(ok(some([1])), ok(some([1])))).toBe(true);
+    expect(deepEqual(ok(none()), ok(some(undefined)))).toBe(false);
+    expect(deepEqual(ok(1), err(1))).toBe(false);
+  });
+
+  test("terminates on cyclic structures", () => {
+    type Node = { value: number; next?: Node };
+    const a: Node = { value: 1 };
+    a.next = a;
+    const b: Node = { value: 1 };
+    b.next = b;
+    const c: Node = { value: 2 };
+    c.next = c;
+
+    expect(deepEqual(a, b)).toBe(true);
+    expect(deepEqual(a, c)).toBe(false);
+  });
+});
+
+describe("naturalOrder", () => {
+  test("orders numbers, bigints, strings and booleans ascending", () => {
+    expect([3, 1, 2].toSorted(naturalOrder)).toEqual([1, 2, 3]);
+    expect([3n, 1n, 2n].toSorted(naturalOrder)).toEqual([1n, 2n, 3n]);
+    expect(["b", "B", "a"].toSorted(naturalOrder)).toEqual(["B", "a", "b"]);
+    expect([true, false].toSorted(naturalOrder)).toEqual([false, true]);
+  });
+
+  test("orders Dates by time", () => {
+    expect(naturalOrder(new Date(1), new Date(0))).toBe(1);
+    expect(naturalOrder(new Date(0), new Date(0))).toBe(0);
+  });
+
+  test("orders NaN before every other number", () => {
+    expect([1, Number.NaN, -Infinity].toSorted(naturalOrder)).toEqual([Number.NaN, -Infinity, 1]);
+    expect(naturalOrder(Number.NaN, Number.NaN)).toBe(0);
+  });
+
+  test("throws for values without a natural order", () => {
+    expect(() => naturalOrder(1, "1")).toThrow(
+      new TypeError("Cannot order number and string without a compare function"),
+    );
+    expect(() => naturalOrder({}, {})).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, test, expect } from "bun:test";
+
+import { err, ok, isErr, isOk } from "@/result";
+import {
+  type NonEmptyArray,
+  type Validation,
+  valid,
+  invalid,
+  invalidAll,
+  isValid,
+  isInvalid,
+  concatErrors,
+  mergeErrors,
+  map,
+  mapErrors,
+  ap,
+  zipWith,
+  match,
+  fromResult,
+  toResult,
+} from "@/validation";
+
+const validateName = (name: string): Validation<string, NonEmptyArray<string>> =>
+  name.length > 0 ? valid(name) : invalid("Name is required");
+
+const validateAge = (age: number): Validation<number, NonEmptyArray<string>> =>
+  age >= 0 ? valid(age) : invalid("Age must be positive");
+
+describe("Validation", () => {
+  describe("constructors and type guards", () => {
+    test("valid creates a Validation with a value", () => {
+      const validation = valid(42);
+
+      expect(isValid(validation)).toBe(true);
+      expect(isInvalid(validation)).toBe(false);
+      if (isValid(validation)) {
+        expect(validation.value).toBe(42);
+      }
+    });
+
+    test("invalid wraps a single error in a non-empty array", () => {
+      const validation = invalid("boom");
+
+      expect(isInvalid(validation)).toBe(true);
+      if (isInvalid(validation)) {
+        expect(validation.errors).toEqual(["boom"]);
+      }
+    });
+
+    test("invalidAll keeps the error collection as given", () => {
+      const validation = invalidAll({ name: "required" });
+
+      expect(isInvalid(validation)).toBe(true);
+      if (isInvalid(validation)) {
+        expect(validation.errors).toEqual({ name: "required" });
+      }
+    });
+
+    test("brands Validations with a registered symbol shared across copies of the library", () => {
+      const brand = Symbol.for("@railway-ts/core/VALIDATION_BRAND");
+
+      expect(Object.getOwnPropertySymbols(valid(1))).toEqual([brand]);
+      expect(Object.getOwnPropertySymbols(invalid("boom"))).toEqual([brand]);
+    });
+  });
+
+  describe("merge functions", () => {
+    test("concatErrors concatenates arrays", () => {
+      expect(concatErrors(["a"], ["b", "c"])).toEqual(["a", "b", "c"]);
+    });
+
+    test("mergeErrors merges records", () => {
+      expect(mergeErrors<Record<string, string>>({ name: "required" }, { age: "negative" })).toEqual({
+        name: "required",
+        age: "negative",
+      });
+    });
+  });
+
+  describe("map and mapErrors", () => {
+    test("map transforms Valid values only", () => {
+      expect(map(valid(21), (n) => n * 2)).toEqual(valid(42));
+      expect(map(invalid("boom") as Validation<number, NonEmptyArray<string>>, (n) => n * 2)).toEqual(invalid("boom"));
+    });
+
+    test("mapErrors transforms Invalid errors only", () => {
+      expect(mapErrors(invalid("boom"), (errors) => errors.length)).toEqual(invalidAll(1));
+      expect(mapErrors(valid(1), (errors: string[]) => errors.length)).toEqual(valid(1));
+    });
+  });
+
+  describe("zipWith", () => {
+    test("combines two Valid values", () => {
+      const user = zipWith(validateName("Alice"), validateAge(30), (name, age) => ({ name, age }));
+
+      expect(user).toEqual(valid({ name: "Alice", age: 30 }));
+    });
+
+    test("accumulates errors from both sides", () => {
+      const user = zipWith(validateName(""), validateAge(-1), (name, age) => ({ name, age }));
+
+      expect(user).toEqual(invalidAll(["Name is required", "Age must be positive"]));
+    });
+
+    test("keeps errors from a single Invalid side", () => {
+      const user = zipWith(validateName("Alice"), validateAge(-1), (name, age) => ({ name, age }));
+
+      expect(user).toEqual(invalid("Age must be positive"));
+    });
+
+    test("unions heterogeneous error types", () => {
+      type NameError = { field: "name" };
+      type AgeError = { field: "age" };
+
+      const user: Validation<[string, number], NonEmptyArray<NameError | AgeError>> = zipWith(
+        invalid<NameError>({ field: "name" }),
+        invalid<AgeError>({ field: "age" }),
+        (name: string, age: number): [string, number] => [name, age],
+      );
+
+      expect(user).toEqual(invalidAll([{ field: "name" }, { field: "age" }]));
+    });
+
+    test("accepts a custom merge for record errors", () => {
+      type FormErrors = Partial<Record<"name" | "age", string>>;
+
+      const user = zipWith(
+        invalidAll<FormErrors>({ name: "required" }),
+        invalidAll<FormErrors>({ age: "negative" }),
+        (name: string, age: number) => ({ name, age }),
+        mergeErrors,
+      );
+
+      expect(user).toEqual(invalidAll({ name: "required", age: "negative" }));
+    });
+  });
+
+  describe("ap", () => {
+    const makeUser = (name: string) => (age: number) => ({ name, age });
+
+    test("applies a curried function to Valid arguments", () => {
+      const user = ap(ap(valid(makeUser), validateName("Alice")), validateAge(30));
+
+      expect(user).toEqual(valid({ name: "Alice", age: 30 }));
+    });
+
+    test("accumulates errors from every argument", () => {
+      const user = ap(ap(valid(makeUser), validateName("")), validateAge(-1));
+
+      expect(user).toEqual(invalidAll(["Name is required", "Age must be positive"]));
+    });
+
+    test("accumulates across nested structures without nesting arrays", () => {
+      const validateCity = (city: string): Validation<string, NonEmptyArray<string>> =>
+        city.length > 0 ? valid(city) : invalid("City is required");
+      const validateZip = (zip: string): Validation<string, NonEmptyArray<string>> =>
+        /^\d{5}$/.test(zip) ? valid(zip) : invalid("Zip must have 5 digits");
+
+      const address = zipWith(validateCity(""), validateZip("abc"), (city, zip) => ({ city, zip }));
+      const user = zipWith(validateName(""), address, (name, addr) => ({ name, address: addr }));
+
+      expect(user).toEqual(invalidAll(["Name is required", "City is required", "Zip must have 5 digits"]));
+    });
+
+    test("accepts a custom merge function", () => {
+      const total = ap(invalidAll<number>(1), invalidAll<number>(2), (a, b) => a + b);
+
+      expect(total).toEqual(invalidAll(3));
+    });
+  });
+
+  describe("match", () => {
+    test("handles both variants", () => {
+      const render = (validation: Validation<number, NonEmptyArray<string>>) =>
+        match(validation, {
+          valid: (value) => `valid: ${value}`,
+          invalid: (errors) => `invalid: ${errors.join(", ")}`,
+        });
+
+      expect(render(valid(1))).toBe("valid: 1");
+      expect(render(invalidAll(["a", "b"]))).toBe("invalid: a, b");
+    });
+  });
+
+  describe("Result conversion", () => {
+    test("fromResult wraps the error in a non-empty array", () => {
+      expect(fromResult(ok(42))).toEqual(valid(42));
+      expect(fromResult(err("boom"))).toEqual(invalid("boom"));
+    });
+
+    test("fromResult accepts a custom error collection builder", () => {
+      expect(fromResult(err("required"), (e) => ({ name: e }))).toEqual(invalidAll({ name: "required" }));
+    });
+
+    test("toResult carries the whole error collection", () => {
+      const okResult = toResult(valid(42));
+      const errResult = toResult(zipWith(validateName(""), validateAge(-1), (name, age) => ({ name, age })));
+
+      expect(isOk(okResult)).toBe(true);
+      expect(isErr(errResult)).toBe(true);
+      if (isErr(errResult)) {
+        expect(errResult.error).toEqual(["Name is required", "Age must be positive"]);
+      }
+    });
+
+    test("round-trips through Result", () => {
+      const validation = validateAge(-1);
+
+      expect(fromResult(toResult(validation), (errors) => errors)).toEqual(validation);
+    });
+  });
+});
@@ -1,10 +1,25 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts", "src/option/index.ts", "src/result/index.ts", "src/utils/index.ts"],
+  entry: [
+    "src/index.ts",
+    "src/decoder/index.ts",
+    "src/option/index.ts",
+    "src/option/pipeable.ts",
+    "src/result/index.ts",
+    "src/result/pipeable.ts",
+    "src/validation/index.ts",
+    "src/utils/index.ts",
+    "src/fluent/index.ts",
+    "src/interop/index.ts",
+    "src/testing/index.ts",
+    "src/testing/bun.ts",
+    "src/testing/arbitrary.ts",
+  ],
+  external: ["bun:test"],
   format: ["esm", "cjs"],
   dts: true,
-  splitting: false,
+  splitting: true,
   sourcemap: true,
   clean: true,
   treeshake: true,